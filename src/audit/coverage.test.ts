@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import type { AuditContext, CrawledPage } from '../types.js';
+import { auditCoverage } from './coverage.js';
+
+function page(url: string, overrides: Partial<CrawledPage> = {}, ...links: string[]): CrawledPage {
+  return {
+    url,
+    source: 'link',
+    depth: 1,
+    status: 200,
+    links: links.map((href) => ({ url: `https://example.com${href}`, text: href })),
+    ...overrides,
+  };
+}
+
+function makeCtx(overrides: Partial<AuditContext> = {}): AuditContext {
+  return {
+    url: 'https://example.com',
+    normalizedUrl: 'https://example.com/',
+    fetchOptions: {},
+    verbose: false,
+    crawlLimit: 50,
+    ...overrides,
+  };
+}
+
+describe('auditCoverage', () => {
+  it('does nothing without a crawl or a sitemap', async () => {
+    expect(await auditCoverage(makeCtx({ sitemapUrls: ['https://example.com/a'] }))).toEqual([]);
+    const ctx = makeCtx({ crawledPages: [page('https://example.com/', { depth: 0 })] });
+    expect(await auditCoverage(ctx)).toEqual([]);
+    expect(ctx.coverage).toBeUndefined();
+  });
+
+  it('reports no findings when the sitemap and links agree', async () => {
+    const ctx = makeCtx({
+      sitemapUrls: ['https://example.com/', 'https://example.com/a'],
+      crawledPages: [
+        page('https://example.com/', { source: 'both', depth: 0 }, '/a'),
+        page('https://example.com/a', { source: 'both' }),
+      ],
+    });
+    expect(await auditCoverage(ctx)).toEqual([]);
+    expect(ctx.coverage).toEqual({ sitemapUrls: 2, linkedPages: 2, orphans: 0, notInSitemap: 0, percent: 100 });
+  });
+
+  it('reports sitemap URLs that no crawled page links to', async () => {
+    const ctx = makeCtx({
+      sitemapUrls: ['https://example.com/', 'https://example.com/a', 'https://example.com/orphan', 'https://example.com/self'],
+      crawledPages: [
+        page('https://example.com/', { source: 'both', depth: 0 }, '/a'),
+        page('https://example.com/a', { source: 'both' }),
+        page('https://example.com/orphan', { source: 'sitemap', depth: 0 }),
+        page('https://example.com/self', { source: 'sitemap', depth: 0 }, '/self'),
+      ],
+    });
+    const findings = await auditCoverage(ctx);
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      code: 'SITEMAP_ORPHAN_PAGES',
+      severity: 'warning',
+      category: 'sitemap',
+      message: '2 sitemap URLs are not linked from any crawled page',
+      details: { urls: ['https://example.com/orphan', 'https://example.com/self'] },
+    });
+    expect(ctx.coverage!.percent).toBe(50);
+  });
+
+  it('counts a link to a redirecting URL as linking to its target', async () => {
+    const ctx = makeCtx({
+      sitemapUrls: ['https://example.com/new'],
+      crawledPages: [
+        page('https://example.com/', { depth: 0 }, '/old'),
+        page('https://example.com/old', { finalUrl: 'https://example.com/new' }),
+      ],
+    });
+    const findings = await auditCoverage(ctx);
+    expect(findings.find((f) => f.code === 'SITEMAP_ORPHAN_PAGES')).toBeUndefined();
+  });
+
+  it('reports indexable linked pages missing from the sitemap', async () => {
+    const ctx = makeCtx({
+      sitemapUrls: ['https://example.com/'],
+      crawledPages: [
+        page('https://example.com/', { source: 'both', depth: 0 }, '/a', '/private', '/copy', '/gone', '/old'),
+        page('https://example.com/a', { canonical: 'https://example.com/a/' }),
+        page('https://example.com/private', { noindex: true }),
+        page('https://example.com/copy', { canonical: 'https://example.com/a' }),
+        page('https://example.com/gone', { status: 404 }),
+        page('https://example.com/old', { finalUrl: 'https://example.com/a' }),
+      ],
+    });
+    const findings = await auditCoverage(ctx);
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      code: 'CRAWL_PAGES_NOT_IN_SITEMAP',
+      severity: 'info',
+      category: 'crawl',
+      message: '1 indexable linked page is missing from the sitemap',
+      details: { urls: ['https://example.com/a'] },
+    });
+    expect(ctx.coverage).toEqual({ sitemapUrls: 1, linkedPages: 2, orphans: 0, notInSitemap: 1, percent: 50 });
+  });
+
+  it('only checks the sitemap URLs a cut-short crawl reached', async () => {
+    const ctx = makeCtx({
+      crawlLimit: 2,
+      sitemapUrls: ['https://example.com/', 'https://example.com/a', 'https://example.com/b', 'https://example.com/c', 'https://example.com/d'],
+      crawledPages: [
+        page('https://example.com/', { source: 'both', depth: 0 }, '/a'),
+        page('https://example.com/a', { source: 'both', depth: 0 }),
+        page('https://example.com/b', { source: 'sitemap', depth: 0 }),
+      ],
+    });
+    const [finding, ...rest] = await auditCoverage(ctx);
+    expect(rest).toEqual([]);
+    expect(finding).toMatchObject({
+      code: 'SITEMAP_ORPHAN_PAGES',
+      severity: 'info',
+      message: '1 sitemap URL is not linked from any crawled page',
+      details: { urls: ['https://example.com/b'] },
+    });
+    expect(finding.explanation).toContain('so 2 sitemap URLs were not checked');
+    expect(finding.explanation).toContain('raise --crawl');
+    expect(ctx.coverage).toEqual({ sitemapUrls: 3, linkedPages: 2, orphans: 1, notInSitemap: 0, percent: 67, partial: true });
+  });
+
+  it('reports orphans as usual when the crawl reached every sitemap URL', async () => {
+    const ctx = makeCtx({
+      crawlLimit: 1,
+      sitemapUrls: ['https://example.com/a'],
+      crawledPages: [page('https://example.com/', { depth: 0 }), page('https://example.com/a', { source: 'sitemap', depth: 0 })],
+    });
+    const [finding] = await auditCoverage(ctx);
+    expect(finding).toMatchObject({ code: 'SITEMAP_ORPHAN_PAGES', severity: 'warning' });
+    expect(finding.explanation).not.toContain('raise --crawl');
+    expect(ctx.coverage?.partial).toBeUndefined();
+  });
+});
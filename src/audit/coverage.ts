@@ -0,0 +1,95 @@
+import type { AuditContext, AuditFinding, CrawledPage } from '../types.js';
+import { DEFAULT_CRAWL_LIMIT } from '../constants.js';
+
+const stripSlash = (url: string) => url.replace(/\/$/, '');
+
+/** A page search engines would index at its own URL */
+function isIndexable(page: CrawledPage): boolean {
+  if (page.status === undefined || page.status < 200 || page.status >= 300) return false;
+  if (page.finalUrl !== undefined && page.finalUrl !== page.url) return false;
+  if (page.noindex) return false;
+  return !page.canonical || stripSlash(page.canonical) === stripSlash(page.url);
+}
+
+/**
+ * Cross-references the sitemap with the link graph from the crawl: sitemap
+ * URLs nothing links to, and indexable linked pages the sitemap leaves out.
+ */
+export async function auditCoverage(ctx: AuditContext): Promise<AuditFinding[]> {
+  const findings: AuditFinding[] = [];
+  const pages = ctx.crawledPages;
+  if (!pages || !ctx.sitemapUrls || ctx.sitemapUrls.length === 0) {
+    return findings;
+  }
+
+  const homepage = ctx.finalUrl ?? ctx.normalizedUrl;
+  const byUrl = new Map(pages.map((p) => [p.url, p]));
+
+  // Pages the crawl never reached can't be checked for links, and may link to
+  // any sitemap URL, so a cut-short crawl only covers the sitemap URLs it fetched
+  const audited = pages.filter((p) => p.source !== 'link' || p.depth > 0).length;
+  const partial = audited >= (ctx.crawlLimit ?? DEFAULT_CRAWL_LIMIT) && ctx.sitemapUrls.some((url) => !byUrl.has(url));
+  const sitemap = new Set(partial ? ctx.sitemapUrls.filter((url) => byUrl.has(url)) : ctx.sitemapUrls);
+
+  // A link to a URL that redirects also reaches the redirect target
+  const linked = new Set<string>();
+  for (const page of pages) {
+    for (const link of page.links) {
+      if (link.url === page.url) continue;
+      linked.add(link.url);
+      const target = byUrl.get(link.url)?.finalUrl;
+      if (target) linked.add(target);
+    }
+  }
+
+  const orphans = [...sitemap].filter((url) => url !== homepage && !linked.has(url));
+  const linkedPages = pages.filter((p) => p.source !== 'sitemap' && isIndexable(p)).map((p) => p.url);
+  const notInSitemap = linkedPages.filter((url) => !sitemap.has(url));
+
+  const union = sitemap.size + notInSitemap.length;
+  ctx.coverage = {
+    sitemapUrls: sitemap.size,
+    linkedPages: linkedPages.length,
+    orphans: orphans.length,
+    notInSitemap: notInSitemap.length,
+    percent: union > 0 ? Math.round(((sitemap.size - orphans.length) / union) * 100) : 100,
+    ...(partial && { partial }),
+  };
+
+  const unchecked = ctx.sitemapUrls.length - sitemap.size;
+  const truncated = partial
+    ? ` The crawl stopped at its page limit, so ${unchecked} sitemap URL${unchecked !== 1 ? 's were' : ' was'} not checked, and pages it did not reach may link to these; raise --crawl to check them all.`
+    : '';
+
+  if (orphans.length > 0) {
+    findings.push({
+      code: 'SITEMAP_ORPHAN_PAGES',
+      severity: partial ? 'info' : 'warning',
+      category: 'sitemap',
+      message: `${orphans.length} sitemap URL${orphans.length !== 1 ? 's are' : ' is'} not linked from any crawled page`,
+      explanation:
+        `Orphan pages are only discoverable through the sitemap. Without internal links they get little link equity, are crawled less often and tend to rank poorly.${truncated}`,
+      suggestion:
+        'Link to these pages from navigation, hub pages or related content, or remove them from the sitemap if they are no longer needed.',
+      details: { urls: orphans },
+      url: homepage,
+    });
+  }
+
+  if (notInSitemap.length > 0) {
+    findings.push({
+      code: 'CRAWL_PAGES_NOT_IN_SITEMAP',
+      severity: 'info',
+      category: 'crawl',
+      message: `${notInSitemap.length} indexable linked page${notInSitemap.length !== 1 ? 's are' : ' is'} missing from the sitemap`,
+      explanation:
+        'These pages return 200, are not noindexed and are their own canonical, so search engines will index them. Listing them in the sitemap helps them get discovered and recrawled sooner.',
+      suggestion:
+        'Add these pages to the sitemap (in Next.js, to app/sitemap.ts), or noindex them if they should not appear in search.',
+      details: { urls: notInSitemap },
+      url: homepage,
+    });
+  }
+
+  return findings;
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import type { AuditContext } from '../types.js';
+import type { AuditContext, ResponseTiming } from '../types.js';
+import { simhash } from '../utils/simhash.js';
 import { auditCrawl } from './crawl.js';
 
 vi.mock('../utils/http.js', () => ({
@@ -10,30 +11,40 @@ import { fetchPage } from '../utils/http.js';
 
 const mockFetchPage = vi.mocked(fetchPage);
 
+// The homepage module has already loaded a homepage without links
 function makeCtx(overrides: Partial<AuditContext> = {}): AuditContext {
   return {
     url: 'https://example.com',
     normalizedUrl: 'https://example.com/',
     fetchOptions: {},
     verbose: false,
+    html: '<html><head></head><body></body></html>',
+    status: 200,
     ...overrides,
   };
 }
 
-function makePage(html: string, opts: { status?: number; headers?: Headers; finalUrl?: string } = {}): {
+function makePage(html: string, opts: { status?: number; headers?: Headers; finalUrl?: string; timing?: ResponseTiming } = {}): {
   body: string;
   status: number;
   headers: Headers;
-  finalUrl: string;
+  finalUrl?: string;
+  timing?: ResponseTiming;
 } {
   return {
     body: html,
     status: opts.status ?? 200,
     headers: opts.headers ?? new Headers(),
-    finalUrl: opts.finalUrl ?? 'https://example.com/',
+    finalUrl: opts.finalUrl,
+    timing: opts.timing,
   };
 }
 
+// Answers every URL with the same page, loaded without a redirect unless it has a finalUrl
+function servePage(page: ReturnType<typeof makePage>) {
+  mockFetchPage.mockImplementation(async (url: string) => ({ ...page, finalUrl: page.finalUrl ?? url }));
+}
+
 const GOOD_HTML = `<html><head>
   <title>Test Page</title>
   <meta name="description" content="A test page">
@@ -80,7 +91,7 @@ describe('auditCrawl', () => {
   // --- Clean page ---
 
   it('returns no findings for a page with all SEO elements', async () => {
-    mockFetchPage.mockResolvedValue(makePage(GOOD_HTML));
+    servePage(makePage(GOOD_HTML));
     const ctx = makeCtx({
       sitemapUrls: ['https://example.com/page-1'],
     });
@@ -91,7 +102,7 @@ describe('auditCrawl', () => {
   // --- Individual check detection ---
 
   it('detects all issues on a bare page', async () => {
-    mockFetchPage.mockResolvedValue(makePage(BAD_HTML));
+    servePage(makePage(BAD_HTML));
     const ctx = makeCtx({
       sitemapUrls: ['https://example.com/page-1'],
     });
@@ -108,7 +119,7 @@ describe('auditCrawl', () => {
 
   it('detects noindex via meta name="robots"', async () => {
     const html = '<html><head><meta name="robots" content="noindex"><title>T</title><meta name="description" content="D"><link rel="canonical" href="https://example.com/p"><script type="application/ld+json">{}</script></head><body></body></html>';
-    mockFetchPage.mockResolvedValue(makePage(html));
+    servePage(makePage(html));
     const ctx = makeCtx({ sitemapUrls: ['https://example.com/p'] });
     const findings = await auditCrawl(ctx);
     const noindex = findings.filter((f) => f.code === 'CRAWL_PAGE_NOINDEX');
@@ -118,7 +129,7 @@ describe('auditCrawl', () => {
 
   it('detects noindex via meta name="googlebot"', async () => {
     const html = '<html><head><meta name="googlebot" content="noindex"><title>T</title><meta name="description" content="D"><link rel="canonical" href="https://example.com/p"><script type="application/ld+json">{}</script></head><body></body></html>';
-    mockFetchPage.mockResolvedValue(makePage(html));
+    servePage(makePage(html));
     const ctx = makeCtx({ sitemapUrls: ['https://example.com/p'] });
     const findings = await auditCrawl(ctx);
     expect(findings.some((f) => f.code === 'CRAWL_PAGE_NOINDEX')).toBe(true);
@@ -126,7 +137,7 @@ describe('auditCrawl', () => {
 
   it('detects X-Robots-Tag noindex header', async () => {
     const headers = new Headers({ 'x-robots-tag': 'noindex' });
-    mockFetchPage.mockResolvedValue(makePage(GOOD_HTML, { headers }));
+    servePage(makePage(GOOD_HTML, { headers }));
     const ctx = makeCtx({ sitemapUrls: ['https://example.com/page-1'] });
     const findings = await auditCrawl(ctx);
     const noindex = findings.filter((f) => f.code === 'CRAWL_PAGE_NOINDEX');
@@ -137,7 +148,7 @@ describe('auditCrawl', () => {
   it('reports two CRAWL_PAGE_NOINDEX when both meta and header have noindex', async () => {
     const html = '<html><head><meta name="robots" content="noindex"><title>T</title><meta name="description" content="D"><link rel="canonical" href="https://example.com/p"><script type="application/ld+json">{}</script></head><body></body></html>';
     const headers = new Headers({ 'x-robots-tag': 'noindex' });
-    mockFetchPage.mockResolvedValue(makePage(html, { headers }));
+    servePage(makePage(html, { headers }));
     const ctx = makeCtx({ sitemapUrls: ['https://example.com/p'] });
     const findings = await auditCrawl(ctx);
     const noindex = findings.filter((f) => f.code === 'CRAWL_PAGE_NOINDEX');
@@ -146,7 +157,7 @@ describe('auditCrawl', () => {
 
   it('detects missing title only (other elements present)', async () => {
     const html = '<html><head><meta name="description" content="D"><link rel="canonical" href="https://example.com/p"><script type="application/ld+json">{}</script></head><body></body></html>';
-    mockFetchPage.mockResolvedValue(makePage(html));
+    servePage(makePage(html));
     const ctx = makeCtx({ sitemapUrls: ['https://example.com/p'] });
     const findings = await auditCrawl(ctx);
     expect(findings).toHaveLength(1);
@@ -156,7 +167,7 @@ describe('auditCrawl', () => {
 
   it('detects missing description with correct severity', async () => {
     const html = '<html><head><title>T</title><link rel="canonical" href="https://example.com/p"><script type="application/ld+json">{}</script></head><body></body></html>';
-    mockFetchPage.mockResolvedValue(makePage(html));
+    servePage(makePage(html));
     const ctx = makeCtx({ sitemapUrls: ['https://example.com/p'] });
     const findings = await auditCrawl(ctx);
     expect(findings).toHaveLength(1);
@@ -166,7 +177,7 @@ describe('auditCrawl', () => {
 
   it('detects missing JSON-LD only with correct severity', async () => {
     const html = '<html><head><title>T</title><meta name="description" content="D"><link rel="canonical" href="https://example.com/p"></head><body></body></html>';
-    mockFetchPage.mockResolvedValue(makePage(html));
+    servePage(makePage(html));
     const ctx = makeCtx({ sitemapUrls: ['https://example.com/p'] });
     const findings = await auditCrawl(ctx);
     expect(findings).toHaveLength(1);
@@ -178,7 +189,7 @@ describe('auditCrawl', () => {
 
   it('detects canonical mismatch', async () => {
     const html = '<html><head><title>T</title><meta name="description" content="D"><link rel="canonical" href="https://example.com/other-page"><script type="application/ld+json">{}</script></head><body></body></html>';
-    mockFetchPage.mockResolvedValue(makePage(html));
+    servePage(makePage(html));
     const ctx = makeCtx({ sitemapUrls: ['https://example.com/page-1'] });
     const findings = await auditCrawl(ctx);
     const mismatch = findings.find((f) => f.code === 'CRAWL_PAGE_CANONICAL_MISMATCH');
@@ -192,7 +203,7 @@ describe('auditCrawl', () => {
 
   it('accepts canonical with trailing slash difference', async () => {
     const html = '<html><head><title>T</title><meta name="description" content="D"><link rel="canonical" href="https://example.com/page-1/"><script type="application/ld+json">{}</script></head><body></body></html>';
-    mockFetchPage.mockResolvedValue(makePage(html));
+    servePage(makePage(html));
     const ctx = makeCtx({ sitemapUrls: ['https://example.com/page-1'] });
     const findings = await auditCrawl(ctx);
     expect(findings.some((f) => f.code === 'CRAWL_PAGE_CANONICAL_MISMATCH')).toBe(false);
@@ -201,7 +212,7 @@ describe('auditCrawl', () => {
 
   it('resolves relative canonical URL against page URL', async () => {
     const html = '<html><head><title>T</title><meta name="description" content="D"><link rel="canonical" href="/page-1"><script type="application/ld+json">{}</script></head><body></body></html>';
-    mockFetchPage.mockResolvedValue(makePage(html));
+    servePage(makePage(html));
     const ctx = makeCtx({ sitemapUrls: ['https://example.com/page-1'] });
     const findings = await auditCrawl(ctx);
     expect(findings.some((f) => f.code === 'CRAWL_PAGE_CANONICAL_MISMATCH')).toBe(false);
@@ -211,7 +222,7 @@ describe('auditCrawl', () => {
   // --- Error handling ---
 
   it('reports error for 404 status', async () => {
-    mockFetchPage.mockResolvedValue(makePage('', { status: 404 }));
+    servePage(makePage('', { status: 404 }));
     const ctx = makeCtx({ sitemapUrls: ['https://example.com/missing'] });
     const findings = await auditCrawl(ctx);
     expect(findings).toHaveLength(1);
@@ -221,7 +232,7 @@ describe('auditCrawl', () => {
   });
 
   it('reports error for 500 status', async () => {
-    mockFetchPage.mockResolvedValue(makePage('', { status: 500 }));
+    servePage(makePage('', { status: 500 }));
     const ctx = makeCtx({ sitemapUrls: ['https://example.com/broken'] });
     const findings = await auditCrawl(ctx);
     expect(findings).toHaveLength(1);
@@ -230,7 +241,7 @@ describe('auditCrawl', () => {
   });
 
   it('reports error for 301 redirect status', async () => {
-    mockFetchPage.mockResolvedValue(makePage('', { status: 301 }));
+    servePage(makePage('', { status: 301 }));
     const ctx = makeCtx({ sitemapUrls: ['https://example.com/old'] });
     const findings = await auditCrawl(ctx);
     expect(findings).toHaveLength(1);
@@ -239,7 +250,7 @@ describe('auditCrawl', () => {
   });
 
   it('does not run further checks after non-2xx status', async () => {
-    mockFetchPage.mockResolvedValue(makePage(BAD_HTML, { status: 404 }));
+    servePage(makePage(BAD_HTML, { status: 404 }));
     const ctx = makeCtx({ sitemapUrls: ['https://example.com/missing'] });
     const findings = await auditCrawl(ctx);
     // Only CRAWL_PAGE_ERROR, no title/description/canonical/jsonld checks
@@ -265,10 +276,29 @@ describe('auditCrawl', () => {
     expect(findings[0].code).toBe('CRAWL_PAGE_ERROR');
   });
 
+  // --- Timing ---
+
+  it('reports slow TTFB on a crawled page', async () => {
+    const pageUrl = 'https://example.com/slow';
+    servePage(makePage(makeGoodHtml(pageUrl), { timing: { ttfb: 1000, total: 1100, bytes: 500 } }));
+    const findings = await auditCrawl(makeCtx({ sitemapUrls: [pageUrl] }));
+    expect(findings).toHaveLength(1);
+    expect(findings[0].code).toBe('SLOW_TTFB');
+    expect(findings[0].severity).toBe('info');
+    expect(findings[0].url).toBe(pageUrl);
+  });
+
+  it('does not report TTFB under the configured threshold', async () => {
+    const pageUrl = 'https://example.com/slow';
+    servePage(makePage(makeGoodHtml(pageUrl), { timing: { ttfb: 1000, total: 1100, bytes: 500 } }));
+    const ctx = makeCtx({ sitemapUrls: [pageUrl], ttfbThresholds: { info: 1500, warning: 3000 } });
+    expect(await auditCrawl(ctx)).toHaveLength(0);
+  });
+
   // --- Crawl limit ---
 
   it('respects crawl limit', async () => {
-    mockFetchPage.mockResolvedValue(makePage(GOOD_HTML));
+    servePage(makePage(GOOD_HTML));
     const urls = Array.from({ length: 10 }, (_, i) => `https://example.com/page-${i}`);
     const ctx = makeCtx({ sitemapUrls: urls, crawlLimit: 3 });
     await auditCrawl(ctx);
@@ -276,7 +306,7 @@ describe('auditCrawl', () => {
   });
 
   it('uses DEFAULT_CRAWL_LIMIT when crawlLimit is not set', async () => {
-    mockFetchPage.mockResolvedValue(makePage(GOOD_HTML));
+    servePage(makePage(GOOD_HTML));
     const urls = Array.from({ length: 60 }, (_, i) => `https://example.com/page-${i}`);
     const ctx = makeCtx({ sitemapUrls: urls });
     await auditCrawl(ctx);
@@ -284,7 +314,7 @@ describe('auditCrawl', () => {
   });
 
   it('crawls all URLs when count is below limit', async () => {
-    mockFetchPage.mockResolvedValue(makePage(GOOD_HTML));
+    servePage(makePage(GOOD_HTML));
     const urls = ['https://example.com/a', 'https://example.com/b'];
     const ctx = makeCtx({ sitemapUrls: urls, crawlLimit: 10 });
     await auditCrawl(ctx);
@@ -295,9 +325,9 @@ describe('auditCrawl', () => {
 
   it('aggregates findings from multiple pages', async () => {
     mockFetchPage
-      .mockResolvedValueOnce(makePage(BAD_HTML))
-      .mockResolvedValueOnce(makePage(makeGoodHtml('https://example.com/page-2')))
-      .mockResolvedValueOnce(makePage(BAD_HTML));
+      .mockResolvedValueOnce(makePage(BAD_HTML, { finalUrl: 'https://example.com/page-1' }))
+      .mockResolvedValueOnce(makePage(makeGoodHtml('https://example.com/page-2'), { finalUrl: 'https://example.com/page-2' }))
+      .mockResolvedValueOnce(makePage(BAD_HTML, { finalUrl: 'https://example.com/page-3' }));
 
     const ctx = makeCtx({
       sitemapUrls: [
@@ -320,8 +350,8 @@ describe('auditCrawl', () => {
   it('continues crawling when one page fails', async () => {
     mockFetchPage
       .mockRejectedValueOnce(new Error('timeout'))
-      .mockResolvedValueOnce(makePage(makeGoodHtml('https://example.com/good')))
-      .mockResolvedValueOnce(makePage(BAD_HTML));
+      .mockResolvedValueOnce(makePage(makeGoodHtml('https://example.com/good'), { finalUrl: 'https://example.com/good' }))
+      .mockResolvedValueOnce(makePage(BAD_HTML, { finalUrl: 'https://example.com/bad' }));
 
     const ctx = makeCtx({
       sitemapUrls: [
@@ -345,7 +375,7 @@ describe('auditCrawl', () => {
   // --- Finding properties ---
 
   it('sets url on all findings', async () => {
-    mockFetchPage.mockResolvedValue(makePage(BAD_HTML));
+    servePage(makePage(BAD_HTML));
     const ctx = makeCtx({ sitemapUrls: ['https://example.com/page-1'] });
     const findings = await auditCrawl(ctx);
     for (const finding of findings) {
@@ -354,7 +384,7 @@ describe('auditCrawl', () => {
   });
 
   it('sets category to crawl on all findings', async () => {
-    mockFetchPage.mockResolvedValue(makePage(BAD_HTML));
+    servePage(makePage(BAD_HTML));
     const ctx = makeCtx({ sitemapUrls: ['https://example.com/page-1'] });
     const findings = await auditCrawl(ctx);
     for (const finding of findings) {
@@ -363,7 +393,7 @@ describe('auditCrawl', () => {
   });
 
   it('includes required finding fields on every finding', async () => {
-    mockFetchPage.mockResolvedValue(makePage(BAD_HTML));
+    servePage(makePage(BAD_HTML));
     const ctx = makeCtx({ sitemapUrls: ['https://example.com/page-1'] });
     const findings = await auditCrawl(ctx);
     for (const finding of findings) {
@@ -379,7 +409,7 @@ describe('auditCrawl', () => {
   // --- Progress output ---
 
   it('writes progress to stderr for each page', async () => {
-    mockFetchPage.mockImplementation(async (url: string) => makePage(makeGoodHtml(url)));
+    mockFetchPage.mockImplementation(async (url: string) => makePage(makeGoodHtml(url), { finalUrl: url }));
     const urls = ['https://example.com/a', 'https://example.com/b', 'https://example.com/c'];
     const ctx = makeCtx({ sitemapUrls: urls });
 
@@ -399,7 +429,7 @@ describe('auditCrawl', () => {
     const callOrder: string[] = [];
     mockFetchPage.mockImplementation(async (url: string) => {
       callOrder.push(url);
-      return makePage(GOOD_HTML);
+      return makePage(GOOD_HTML, { finalUrl: url });
     });
 
     // 7 URLs with concurrency 5 = batch of 5, then batch of 2
@@ -413,4 +443,269 @@ describe('auditCrawl', () => {
       expect(callOrder).toContain(url);
     }
   });
+
+  // --- Page snapshots ---
+
+  it('records a snapshot per crawled page', async () => {
+    mockFetchPage.mockImplementation(async (url: string) => {
+      if (url.endsWith('/gone')) return makePage(BAD_HTML, { status: 404, finalUrl: url });
+      if (url.endsWith('/down')) throw new Error('timeout');
+      return makePage(GOOD_HTML, { headers: new Headers({ 'x-robots-tag': 'noarchive' }), finalUrl: url });
+    });
+
+    const ctx = makeCtx({
+      sitemapUrls: ['https://example.com/page-1', 'https://example.com/gone', 'https://example.com/down'],
+      snapshots: [],
+    });
+    await auditCrawl(ctx);
+
+    const byUrl = Object.fromEntries(ctx.snapshots!.map((s) => [s.url, s]));
+    expect(byUrl['https://example.com/page-1']).toEqual({
+      url: 'https://example.com/page-1',
+      status: 200,
+      title: 'Test Page',
+      canonical: 'https://example.com/page-1',
+      robots: 'noarchive',
+    });
+    expect(byUrl['https://example.com/gone']).toEqual({ url: 'https://example.com/gone', status: 404 });
+    expect(byUrl['https://example.com/down']).toEqual({ url: 'https://example.com/down' });
+  });
+
+  // --- Following links ---
+
+  function linking(pageUrl: string, ...hrefs: string[]): string {
+    return makeGoodHtml(pageUrl).replace('<body></body>', `<body>${hrefs.map((h) => `<a href="${h}">Go to ${h}</a>`).join('')}</body>`);
+  }
+
+  function serveSite(site: Record<string, string>) {
+    mockFetchPage.mockImplementation(async (url: string) =>
+      url in site ? makePage(site[url], { finalUrl: url }) : makePage(BAD_HTML, { status: 404, finalUrl: url }));
+  }
+
+  it('crawls a site without a sitemap by following links from the homepage', async () => {
+    serveSite({
+      'https://example.com/a': linking('https://example.com/a', '/b'),
+      'https://example.com/b': linking('https://example.com/b', '/'),
+    });
+    const ctx = makeCtx({ html: linking('https://example.com/', '/a', '#top') });
+    const findings = await auditCrawl(ctx);
+
+    expect(findings).toEqual([]);
+    expect(mockFetchPage.mock.calls.map(([url]) => url)).toEqual(['https://example.com/a', 'https://example.com/b']);
+    expect(ctx.crawledPages!.map((p) => [p.url, p.source, p.depth, p.status])).toEqual([
+      ['https://example.com/', 'link', 0, 200],
+      ['https://example.com/a', 'link', 1, 200],
+      ['https://example.com/b', 'link', 2, 200],
+    ]);
+    expect(ctx.crawledPages![1].links).toEqual([{ url: 'https://example.com/b', text: 'Go to /b' }]);
+  });
+
+  it('records whether a page came from the sitemap, links or both', async () => {
+    serveSite({
+      'https://example.com/listed': linking('https://example.com/listed'),
+      'https://example.com/linked': linking('https://example.com/linked', '/listed'),
+      'https://example.com/orphan': linking('https://example.com/orphan'),
+    });
+    const ctx = makeCtx({
+      html: linking('https://example.com/', '/linked'),
+      sitemapUrls: ['https://example.com/listed', 'https://example.com/orphan'],
+    });
+    await auditCrawl(ctx);
+
+    const sources = Object.fromEntries(ctx.crawledPages!.map((p) => [p.url, p.source]));
+    expect(sources).toEqual({
+      'https://example.com/': 'link',
+      'https://example.com/listed': 'both',
+      'https://example.com/orphan': 'sitemap',
+      'https://example.com/linked': 'link',
+    });
+  });
+
+  it('audits the homepage like any other page when the sitemap lists it', async () => {
+    serveSite({ 'https://example.com/': linking('https://example.com/', '/a'), 'https://example.com/a': linking('https://example.com/a') });
+    const ctx = makeCtx({ sitemapUrls: ['https://example.com/'] });
+    await auditCrawl(ctx);
+    expect(mockFetchPage.mock.calls.map(([url]) => url)).toEqual(['https://example.com/', 'https://example.com/a']);
+    expect(ctx.crawledPages![0]).toMatchObject({ url: 'https://example.com/', source: 'both', depth: 0 });
+  });
+
+  it('fetches the homepage when it was not loaded', async () => {
+    serveSite({ 'https://example.com/': linking('https://example.com/', '/a'), 'https://example.com/a': linking('https://example.com/a') });
+    const ctx = makeCtx({ html: undefined });
+    await auditCrawl(ctx);
+    expect(ctx.crawledPages!.map((p) => p.url)).toEqual(['https://example.com/', 'https://example.com/a']);
+  });
+
+  it('does not follow links from a homepage that returned an error', async () => {
+    serveSite({ 'https://example.com/login': linking('https://example.com/login') });
+    const ctx = makeCtx({ html: linking('https://example.com/', '/login'), status: 401 });
+    await auditCrawl(ctx);
+    expect(mockFetchPage).not.toHaveBeenCalled();
+    expect(ctx.crawledPages).toEqual([{ url: 'https://example.com/', source: 'link', depth: 0, status: 401, links: [] }]);
+  });
+
+  it('records the status of a homepage it fetched itself', async () => {
+    serveSite({});
+    const ctx = makeCtx({ html: undefined, status: undefined });
+    await auditCrawl(ctx);
+    expect(ctx.crawledPages!.map((p) => [p.url, p.status])).toEqual([['https://example.com/', 404]]);
+  });
+
+  it('only follows links to the same host', async () => {
+    const ctx = makeCtx({
+      html: linking('https://example.com/', 'https://other.com/', 'https://www.example.com/', 'mailto:hi@example.com', 'tel:+123'),
+    });
+    await auditCrawl(ctx);
+    expect(mockFetchPage).not.toHaveBeenCalled();
+  });
+
+  it('does not follow links that robots.txt disallows', async () => {
+    serveSite({ 'https://example.com/docs': linking('https://example.com/docs') });
+    const ctx = makeCtx({
+      html: linking('https://example.com/', '/docs', '/admin/users', '/search?q=x'),
+      robotsTxt: 'User-agent: *\nDisallow: /admin\nDisallow: /*?q=',
+    });
+    await auditCrawl(ctx);
+    expect(mockFetchPage.mock.calls.map(([url]) => url)).toEqual(['https://example.com/docs']);
+  });
+
+  it('stops following links at the crawl depth', async () => {
+    serveSite({
+      'https://example.com/a': linking('https://example.com/a', '/b'),
+      'https://example.com/b': linking('https://example.com/b', '/c'),
+    });
+    const ctx = makeCtx({ html: linking('https://example.com/', '/a'), crawlDepth: 2 });
+    await auditCrawl(ctx);
+    expect(mockFetchPage.mock.calls.map(([url]) => url)).toEqual(['https://example.com/a', 'https://example.com/b']);
+  });
+
+  it('counts linked pages against the crawl limit', async () => {
+    serveSite({
+      'https://example.com/a': linking('https://example.com/a', '/c'),
+      'https://example.com/b': linking('https://example.com/b'),
+    });
+    const ctx = makeCtx({ html: linking('https://example.com/', '/a', '/b'), crawlLimit: 2 });
+    await auditCrawl(ctx);
+    expect(mockFetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('records noindex and the resolved canonical of each page', async () => {
+    servePage(makePage(
+      '<html><head><link rel="canonical" href="/main"></head><body></body></html>',
+      { headers: new Headers({ 'x-robots-tag': 'noindex' }), finalUrl: 'https://example.com/copy' },
+    ));
+    const ctx = makeCtx({
+      html: '<html><head><meta name="robots" content="noindex"></head><body><a href="/copy">Copy</a></body></html>',
+    });
+    await auditCrawl(ctx);
+    expect(ctx.crawledPages!.map((p) => [p.noindex, p.canonical])).toEqual([
+      [true, undefined],
+      [true, 'https://example.com/main'],
+    ]);
+  });
+
+  it('records the title, description and first H1 of each page', async () => {
+    servePage(makePage(
+      makeGoodHtml('https://example.com/a').replace('<body>', '<body><h1> Widgets\n for sale </h1><h1>Other</h1>'),
+      { finalUrl: 'https://example.com/a' },
+    ));
+    const ctx = makeCtx({ html: linking('https://example.com/', '/a') });
+    await auditCrawl(ctx);
+    expect(ctx.crawledPages!.map((p) => [p.title, p.description, p.h1])).toEqual([
+      ['Test Page', 'A test page', undefined],
+      ['Test Page', 'A test page', 'Widgets for sale'],
+    ]);
+  });
+
+  it('fingerprints the main text of pages that have enough of it', async () => {
+    const article = Array.from({ length: 60 }, (_, i) => `word${i}`).join(' ');
+    servePage(makePage(
+      makeGoodHtml('https://example.com/a').replace('<body></body>', `<body><main><p>${article}</p></main></body>`),
+      { finalUrl: 'https://example.com/a' },
+    ));
+    const ctx = makeCtx({ html: linking('https://example.com/', '/a') });
+    await auditCrawl(ctx);
+    expect(ctx.crawledPages![0].contentHash).toBeUndefined();
+    expect(ctx.crawledPages![1].contentHash).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('leaves text blocks that most pages share out of the fingerprint', async () => {
+    const words = (prefix: string) => Array.from({ length: 60 }, (_, i) => `${prefix}${i}`).join(' ');
+    const banner = `<div class="signup">${words('newsletter')}</div>`;
+    const paths = ['/a', '/b', '/c', '/d', '/e'];
+    serveSite(Object.fromEntries(paths.map((path) => {
+      const url = `https://example.com${path}`;
+      // /e is nothing but the shared banner
+      const own = path === '/e' ? '' : `<p>${words(path.slice(1))}</p>`;
+      return [url, makeGoodHtml(url).replace('<body></body>', `<body><main>${own}${banner}</main></body>`)];
+    })));
+    const ctx = makeCtx({ html: linking('https://example.com/', ...paths) });
+    await auditCrawl(ctx);
+
+    const hashes = Object.fromEntries(ctx.crawledPages!.map((p) => [p.url, p.contentHash]));
+    expect(hashes['https://example.com/a']).toBe(simhash(words('a')));
+    expect(hashes['https://example.com/d']).toBe(simhash(words('d')));
+    expect(hashes['https://example.com/e']).toBe(simhash(words('newsletter')));
+  });
+
+  it('does not report noindex on pages that are only linked', async () => {
+    servePage(makePage(
+      makeGoodHtml('https://example.com/private').replace('<head>', '<head><meta name="robots" content="noindex">'),
+      { headers: new Headers({ 'x-robots-tag': 'noindex' }), finalUrl: 'https://example.com/private' },
+    ));
+    const findings = await auditCrawl(makeCtx({ html: linking('https://example.com/', '/private') }));
+    expect(findings).toEqual([]);
+  });
+
+  it('skips page checks and links on non-HTML responses', async () => {
+    servePage(makePage('%PDF-1.7 <a href="/hidden">', {
+      headers: new Headers({ 'content-type': 'application/pdf' }),
+      finalUrl: 'https://example.com/guide.pdf',
+    }));
+    const ctx = makeCtx({ html: linking('https://example.com/', '/guide.pdf') });
+    const findings = await auditCrawl(ctx);
+    expect(findings).toEqual([]);
+    expect(mockFetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves pages that are only linked and fail to the links check', async () => {
+    mockFetchPage.mockImplementation(async (url: string) => {
+      if (url.endsWith('/down')) throw new Error('timeout');
+      return makePage(BAD_HTML, { status: 404, finalUrl: url });
+    });
+    const ctx = makeCtx({ html: linking('https://example.com/', '/gone', '/down'), snapshots: [] });
+    const findings = await auditCrawl(ctx);
+    expect(findings).toEqual([]);
+    expect(ctx.crawledPages!.map((p) => [p.url, p.status])).toEqual([
+      ['https://example.com/', 200],
+      ['https://example.com/gone', 404],
+      ['https://example.com/down', undefined],
+    ]);
+  });
+
+  it('audits a linked URL that redirects only at the page it leads to', async () => {
+    const site: Record<string, string> = {
+      'https://example.com/about': linking('https://example.com/about').replace(/<meta name="description"[^>]*>/, ''),
+      'https://example.com/team': linking('https://example.com/team').replace(/<meta name="description"[^>]*>/, ''),
+    };
+    mockFetchPage.mockImplementation(async (url: string) => {
+      const finalUrl = url.replace(/\/$/, '');
+      return makePage(site[finalUrl] ?? BAD_HTML, { finalUrl });
+    });
+    const ctx = makeCtx({ html: linking('https://example.com/', '/about/', '/about', '/team/') });
+    const findings = await auditCrawl(ctx);
+
+    expect(findings.map((f) => [f.code, f.url])).toEqual([
+      ['CRAWL_PAGE_DESCRIPTION_MISSING', 'https://example.com/about'],
+      ['CRAWL_PAGE_DESCRIPTION_MISSING', 'https://example.com/team'],
+    ]);
+    expect(ctx.crawledPages!.map((p) => [p.url, p.depth, p.finalUrl])).toEqual([
+      ['https://example.com/', 0, undefined],
+      ['https://example.com/about/', 1, 'https://example.com/about'],
+      ['https://example.com/about', 1, 'https://example.com/about'],
+      ['https://example.com/team/', 1, 'https://example.com/team'],
+      ['https://example.com/team', 1, 'https://example.com/team'],
+    ]);
+    expect(mockFetchPage).toHaveBeenCalledTimes(4);
+  });
 });
@@ -1,90 +1,270 @@
-import type { AuditContext, AuditFinding } from '../types.js';
-import { DEFAULT_CRAWL_LIMIT, CRAWL_CONCURRENCY } from '../constants.js';
+import type { AuditContext, AuditFinding, CrawledPage, CrawlSource, ResponseTiming } from '../types.js';
+import {
+  DEFAULT_CRAWL_LIMIT,
+  DEFAULT_CRAWL_DEPTH,
+  CRAWL_CONCURRENCY,
+  NEAR_DUPLICATE_MIN_WORDS,
+  BOILERPLATE_SHARE,
+  BOILERPLATE_MIN_PAGES,
+  USER_AGENT,
+} from '../constants.js';
 import { fetchPage } from '../utils/http.js';
+import { takeSnapshot } from '../utils/snapshot.js';
+import { checkTtfb } from '../utils/timing.js';
+import { isAllowed, parseRobotsTxt, selectRobotsRule } from '../utils/robots-parser.js';
 import {
   getNoindexDirective,
   getTitle,
   getMetaTag,
   getCanonicalUrl,
+  getResolvedLinks,
+  getH1,
+  getMainTextBlocks,
 } from '../utils/html-parser.js';
+import { getWords, simhash } from '../utils/simhash.js';
 import * as cheerio from 'cheerio';
 
+/**
+ * Breadth-first crawl from the homepage and the sitemap, following links
+ * to pages on the same host. Sitemap URLs are always audited; linked pages
+ * are only queued when robots.txt allows them for our user agent and they
+ * are at most `crawlDepth` links away. The homepage itself is covered by
+ * the other modules, so it only gets page checks when the sitemap lists it.
+ */
 export async function auditCrawl(ctx: AuditContext): Promise<AuditFinding[]> {
   const findings: AuditFinding[] = [];
+  const limit = ctx.crawlLimit ?? DEFAULT_CRAWL_LIMIT;
+  const maxDepth = ctx.crawlDepth ?? DEFAULT_CRAWL_DEPTH;
+  const homepage = ctx.finalUrl ?? ctx.normalizedUrl;
+  const host = new URL(homepage).host;
+  const robotsRule = ctx.robotsTxt
+    ? selectRobotsRule(parseRobotsTxt(ctx.robotsTxt).rules, ctx.fetchOptions.userAgent ?? USER_AGENT)
+    : undefined;
 
-  if (!ctx.sitemapUrls || ctx.sitemapUrls.length === 0) {
-    return findings;
+  const inSitemap = new Set(ctx.sitemapUrls ?? []);
+  const pages: CrawledPage[] = [];
+  const discovered = new Map<string, CrawledPage>();
+  // Main text of each HTML page, fingerprinted once the whole crawl is known
+  const texts = new Map<CrawledPage, string[]>();
+  ctx.crawledPages = pages;
+
+  const discover = (url: string, source: CrawlSource, depth: number): CrawledPage => {
+    const page: CrawledPage = { url, source, depth, links: [] };
+    discovered.set(url, page);
+    return page;
+  };
+
+  // Record where a page's links lead and queue the ones not seen yet
+  const follow = (page: CrawledPage, next: CrawledPage[]) => {
+    // A redirect leads to a single page, queued at the same depth unless already seen
+    if (page.finalUrl !== undefined && page.finalUrl !== page.url) {
+      const target = new URL(page.finalUrl);
+      const loaded = page.status !== undefined && page.status >= 200 && page.status < 300;
+      if (loaded && target.host === host && !discovered.has(target.href) && isAllowed(robotsRule, target.pathname + target.search)) {
+        next.push(discover(target.href, 'link', page.depth));
+      }
+      return;
+    }
+    for (const link of page.links) {
+      const known = discovered.get(link.url);
+      if (known) {
+        if (known.source === 'sitemap') known.source = 'both';
+        continue;
+      }
+      const { pathname, search } = new URL(link.url);
+      if (page.depth < maxDepth && isAllowed(robotsRule, pathname + search)) {
+        next.push(discover(link.url, 'link', page.depth + 1));
+      }
+    }
+  };
+
+  let frontier: CrawledPage[] = [];
+  const root = discover(homepage, 'link', 0);
+  for (const url of inSitemap) {
+    if (url === homepage) {
+      root.source = 'both';
+    } else if (!discovered.has(url)) {
+      frontier.push(discover(url, 'sitemap', 0));
+    }
   }
 
-  const limit = ctx.crawlLimit ?? DEFAULT_CRAWL_LIMIT;
-  const urls = ctx.sitemapUrls.slice(0, limit);
-  const total = urls.length;
-
-  // Process in batches of CRAWL_CONCURRENCY
-  for (let i = 0; i < urls.length; i += CRAWL_CONCURRENCY) {
-    const batch = urls.slice(i, i + CRAWL_CONCURRENCY);
-    const results = await Promise.allSettled(
-      batch.map(async (pageUrl, batchIdx) => {
-        const idx = i + batchIdx + 1;
-        process.stderr.write(`Crawling [${idx}/${total}] ${pageUrl}\n`);
-        return auditPage(pageUrl, ctx);
-      }),
-    );
-
-    for (const result of results) {
-      if (result.status === 'fulfilled') {
-        findings.push(...result.value);
+  // The homepage was already fetched for the other modules
+  if (root.source === 'both') {
+    frontier.unshift(root);
+  } else {
+    const loaded = ctx.html !== undefined
+      ? { status: ctx.status, body: ctx.html, headers: new Headers(ctx.headers) }
+      : await fetchHomepage(homepage, ctx);
+    pages.push(root);
+    root.status = loaded?.status;
+    // Error pages, e.g. behind Deployment Protection, have no links of the site's own
+    if (loaded && root.status !== undefined && root.status >= 200 && root.status < 300) {
+      texts.set(root, readPage(root, loaded.body, loaded.headers, host));
+    }
+    follow(root, frontier);
+  }
+
+  let audited = 0;
+  while (frontier.length > 0 && audited < limit) {
+    const level = frontier.slice(0, limit - audited);
+    const levelStart = audited;
+    const next: CrawledPage[] = [];
+
+    // Process in batches of CRAWL_CONCURRENCY
+    for (let i = 0; i < level.length; i += CRAWL_CONCURRENCY) {
+      const batch = level.slice(i, i + CRAWL_CONCURRENCY);
+      // The total grows as links to new pages turn up
+      const total = Math.min(limit, levelStart + level.length + next.length);
+      const results = await Promise.allSettled(
+        batch.map(async (page, batchIdx) => {
+          process.stderr.write(`Crawling [${levelStart + i + batchIdx + 1}/${total}] ${page.url}\n`);
+          return auditPage(page, ctx, host, inSitemap.has(page.url), texts);
+        }),
+      );
+
+      for (const [j, result] of results.entries()) {
+        pages.push(batch[j]);
+        if (result.status === 'fulfilled') {
+          findings.push(...result.value);
+        }
+        follow(batch[j], next);
       }
     }
+
+    audited += level.length;
+    frontier = next;
   }
 
+  fingerprint(texts);
   return findings;
 }
 
+async function fetchHomepage(url: string, ctx: AuditContext): Promise<{ status: number; body: string; headers: Headers } | undefined> {
+  try {
+    return await fetchPage(url, ctx.fetchOptions);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Fills in the facts later modules need from a page that loaded, and returns its main text blocks */
+function readPage(page: CrawledPage, body: string, headers: Headers, host: string): string[] {
+  const base = page.finalUrl ?? page.url;
+  const links = getResolvedLinks(body, base);
+  page.links = links.filter((link) => new URL(link.url).host === host);
+  page.externalLinks = links.filter((link) => new URL(link.url).host !== host);
+  page.noindex = getNoindexDirective(body) || (headers.get('x-robots-tag') ?? '').toLowerCase().includes('noindex');
+  const canonical = getCanonicalUrl(body);
+  if (canonical && URL.canParse(canonical, base)) {
+    page.canonical = new URL(canonical, base).href;
+  }
+  page.title = getTitle(body) ?? undefined;
+  page.description = getMetaTag(body, 'description') ?? undefined;
+  page.h1 = getH1(body) ?? undefined;
+  return getMainTextBlocks(body);
+}
+
+/**
+ * Fingerprints each page's main text without the blocks that more than half
+ * of the pages share, such as sign-up forms or banners that aren't marked up
+ * as header, footer or sidebar. A page left with too few words keeps its
+ * full text, so pages that are nothing but shared blocks still match.
+ */
+function fingerprint(texts: Map<CrawledPage, string[]>): void {
+  const counts = new Map<string, number>();
+  for (const blocks of texts.values()) {
+    for (const block of new Set(blocks)) {
+      counts.set(block, (counts.get(block) ?? 0) + 1);
+    }
+  }
+  const isBoilerplate = (block: string) =>
+    texts.size >= BOILERPLATE_MIN_PAGES && counts.get(block)! > texts.size * BOILERPLATE_SHARE;
+
+  for (const [page, blocks] of texts) {
+    const own = blocks.filter((block) => !isBoilerplate(block)).join(' ');
+    const text = getWords(own).length >= NEAR_DUPLICATE_MIN_WORDS ? own : blocks.join(' ');
+    if (getWords(text).length >= NEAR_DUPLICATE_MIN_WORDS) {
+      page.contentHash = simhash(text);
+    }
+  }
+}
+
 async function auditPage(
-  pageUrl: string,
+  page: CrawledPage,
   ctx: AuditContext,
+  host: string,
+  listed: boolean,
+  texts: Map<CrawledPage, string[]>,
 ): Promise<AuditFinding[]> {
   const findings: AuditFinding[] = [];
+  const pageUrl = page.url;
 
   let body: string;
   let status: number;
   let headers: Headers;
+  let timing: ResponseTiming | undefined;
   try {
     const res = await fetchPage(pageUrl, ctx.fetchOptions);
     body = res.body;
     status = res.status;
     headers = res.headers;
+    timing = res.timing;
+    page.status = status;
+    page.finalUrl = res.finalUrl;
   } catch {
-    findings.push({
-      code: 'CRAWL_PAGE_ERROR',
-      severity: 'error',
-      category: 'crawl',
-      message: `Failed to fetch page: ${pageUrl}`,
-      explanation: 'The page could not be reached, which means search engines cannot crawl it either.',
-      suggestion: 'Ensure the page is accessible and not timing out.',
-      url: pageUrl,
-    });
+    ctx.snapshots?.push(takeSnapshot(pageUrl));
+    if (listed) {
+      findings.push({
+        code: 'CRAWL_PAGE_ERROR',
+        severity: 'error',
+        category: 'crawl',
+        message: `Failed to fetch page: ${pageUrl}`,
+        explanation: 'The page could not be reached, which means search engines cannot crawl it either.',
+        suggestion: 'Ensure the page is accessible and not timing out.',
+        url: pageUrl,
+      });
+    }
     return findings;
   }
 
-  // Non-2xx status
+  ctx.snapshots?.push(takeSnapshot(pageUrl, status, body, headers));
+
+  // Non-2xx status; the links module reports pages that are only linked, with the pages linking to them
   if (status < 200 || status >= 300) {
-    findings.push({
-      code: 'CRAWL_PAGE_ERROR',
-      severity: 'error',
-      category: 'crawl',
-      message: `Page returned HTTP ${status}: ${pageUrl}`,
-      explanation: 'Pages in the sitemap should return a 200 status. Non-2xx pages waste crawl budget.',
-      suggestion: 'Fix the page or remove it from the sitemap.',
-      details: { status },
-      url: pageUrl,
-    });
+    if (listed) {
+      findings.push({
+        code: 'CRAWL_PAGE_ERROR',
+        severity: 'error',
+        category: 'crawl',
+        message: `Page returned HTTP ${status}: ${pageUrl}`,
+        explanation: 'Pages in the sitemap should return a 200 status. Non-2xx pages waste crawl budget.',
+        suggestion: 'Fix the page or remove it from the sitemap.',
+        details: { status },
+        url: pageUrl,
+      });
+    }
+    return findings;
+  }
+
+  // The links checker reports the redirect; the page is audited at the URL it leads to
+  if (page.finalUrl !== pageUrl) {
+    return findings;
+  }
+
+  const slow = checkTtfb(pageUrl, timing, ctx.ttfbThresholds);
+  if (slow) {
+    findings.push(slow);
+  }
+
+  // PDFs and other files have no markup to check
+  const contentType = headers.get('content-type');
+  if (contentType && !/html/i.test(contentType)) {
     return findings;
   }
+  texts.set(page, readPage(page, body, headers, host));
 
-  // noindex via meta tag
-  if (getNoindexDirective(body)) {
+  // noindex via meta tag; fine for pages that are only linked
+  if (listed && getNoindexDirective(body)) {
     findings.push({
       code: 'CRAWL_PAGE_NOINDEX',
       severity: 'warning',
@@ -98,7 +278,7 @@ async function auditPage(
 
   // noindex via X-Robots-Tag header
   const xRobotsTag = headers.get('x-robots-tag') ?? '';
-  if (xRobotsTag.toLowerCase().includes('noindex')) {
+  if (listed && xRobotsTag.toLowerCase().includes('noindex')) {
     findings.push({
       code: 'CRAWL_PAGE_NOINDEX',
       severity: 'warning',
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import type { AuditContext, CrawledPage } from '../types.js';
+import { auditDuplicates } from './duplicates.js';
+
+function page(path: string, overrides: Partial<CrawledPage> = {}): CrawledPage {
+  return {
+    url: `https://example.com${path}`,
+    source: 'sitemap',
+    depth: 0,
+    status: 200,
+    links: [],
+    ...overrides,
+  };
+}
+
+function makeCtx(crawledPages?: CrawledPage[], overrides: Partial<AuditContext> = {}): AuditContext {
+  return {
+    url: 'https://example.com',
+    normalizedUrl: 'https://example.com/',
+    fetchOptions: {},
+    verbose: false,
+    crawlLimit: 50,
+    crawledPages,
+    ...overrides,
+  };
+}
+
+// Fingerprints 4 and 6 bits away from A (similarity 0.94 and 0.91)
+const HASH_A = '0000000000000000';
+const HASH_B = '000000000000000f';
+const HASH_C = '000000000000003f';
+const HASH_FAR = 'ffffffff00000000';
+
+describe('auditDuplicates', () => {
+  it('does nothing without a crawl', async () => {
+    expect(await auditDuplicates(makeCtx())).toEqual([]);
+  });
+
+  it('reports no findings when every page is unique', async () => {
+    const findings = await auditDuplicates(makeCtx([
+      page('/a', { title: 'A', description: 'About A', h1: 'A' }),
+      page('/b', { title: 'B', description: 'About B', h1: 'B' }),
+      page('/c'),
+    ]));
+    expect(findings).toEqual([]);
+  });
+
+  it('groups pages sharing a title, ignoring case and whitespace', async () => {
+    const findings = await auditDuplicates(makeCtx([
+      page('/a', { title: 'Widgets | Shop' }),
+      page('/b', { title: 'Other' }),
+      page('/c', { title: ' widgets  |  SHOP' }),
+      page('/d', { title: 'Other' }),
+      page('/e', { title: 'Widgets | Shop' }),
+    ]));
+    expect(findings.map((f) => [f.code, f.severity, f.message, f.details])).toEqual([
+      [
+        'DUPLICATE_TITLE',
+        'warning',
+        '3 pages share the title "Widgets | Shop"',
+        { title: 'Widgets | Shop', urls: ['https://example.com/a', 'https://example.com/c', 'https://example.com/e'] },
+      ],
+      ['DUPLICATE_TITLE', 'warning', '2 pages share the title "Other"', { title: 'Other', urls: ['https://example.com/b', 'https://example.com/d'] }],
+    ]);
+    expect(findings[0].url).toBe('https://example.com/a');
+  });
+
+  it('reports duplicate descriptions and headings separately', async () => {
+    const findings = await auditDuplicates(makeCtx([
+      page('/a', { title: 'A', description: 'Best widgets', h1: 'Widgets' }),
+      page('/b', { title: 'B', description: 'Best widgets', h1: 'Widgets' }),
+    ]));
+    expect(findings.map((f) => [f.code, f.severity, f.details])).toEqual([
+      ['DUPLICATE_DESCRIPTION', 'warning', { description: 'Best widgets', urls: ['https://example.com/a', 'https://example.com/b'] }],
+      ['DUPLICATE_H1', 'info', { h1: 'Widgets', urls: ['https://example.com/a', 'https://example.com/b'] }],
+    ]);
+  });
+
+  it('leaves out pages that are not indexed at their own URL', async () => {
+    const findings = await auditDuplicates(makeCtx([
+      page('/a', { title: 'Same' }),
+      page('/b', { title: 'Same', noindex: true }),
+      page('/c', { title: 'Same', canonical: 'https://example.com/a' }),
+      page('/d', { title: 'Same', finalUrl: 'https://example.com/a' }),
+      page('/e', { title: 'Same', status: 404 }),
+      page('/f/', { title: 'Same', canonical: 'https://example.com/f' }),
+    ]));
+    expect(findings).toHaveLength(1);
+    expect(findings[0].details!.urls).toEqual(['https://example.com/a', 'https://example.com/f/']);
+  });
+
+  it('clusters near-duplicate pages and flags those without a shared canonical', async () => {
+    const findings = await auditDuplicates(makeCtx([
+      page('/a', { contentHash: HASH_A }),
+      page('/b', { contentHash: HASH_B }),
+      page('/c', { contentHash: HASH_FAR }),
+      page('/d', { contentHash: HASH_C, canonical: 'https://example.com/d' }),
+      page('/short'),
+    ]));
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      code: 'NEAR_DUPLICATE_CONTENT',
+      severity: 'warning',
+      message: '3 pages have near-duplicate content without a shared canonical URL',
+      details: {
+        urls: ['https://example.com/a', 'https://example.com/b', 'https://example.com/d'],
+        similarity: 0.91,
+        consolidated: false,
+        canonicals: { 'https://example.com/a': null, 'https://example.com/b': null, 'https://example.com/d': 'https://example.com/d' },
+      },
+    });
+  });
+
+  it('reports clusters whose canonicals point to one page as info', async () => {
+    const findings = await auditDuplicates(makeCtx([
+      page('/a', { contentHash: HASH_A, canonical: 'https://example.com/a/' }),
+      page('/a?ref=nav', { contentHash: HASH_A, canonical: 'https://example.com/a' }),
+      page('/print/a', { contentHash: HASH_B, canonical: 'https://example.com/a' }),
+    ]));
+    expect(findings.map((f) => [f.code, f.severity, f.details])).toEqual([
+      [
+        'NEAR_DUPLICATE_CONTENT',
+        'info',
+        {
+          urls: ['https://example.com/a', 'https://example.com/a?ref=nav', 'https://example.com/print/a'],
+          similarity: 0.94,
+          consolidated: true,
+          canonical: 'https://example.com/a/',
+        },
+      ],
+    ]);
+  });
+
+  it('uses the configured similarity threshold and ignores pages that are not indexed', async () => {
+    const pages = [
+      page('/a', { contentHash: HASH_A }),
+      page('/b', { contentHash: HASH_C }),
+      page('/c', { contentHash: HASH_A, noindex: true }),
+      page('/d', { contentHash: HASH_A, status: 500 }),
+    ];
+    expect(await auditDuplicates(makeCtx(pages))).toHaveLength(1);
+    expect(await auditDuplicates(makeCtx(pages, { nearDuplicateThreshold: 0.95 }))).toEqual([]);
+  });
+});
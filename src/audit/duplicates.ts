@@ -0,0 +1,175 @@
+import type { AuditContext, AuditFinding, CrawledPage, IssueCode, IssueSeverity } from '../types.js';
+import { DEFAULT_NEAR_DUPLICATE_THRESHOLD } from '../constants.js';
+import { similarity } from '../utils/simhash.js';
+
+const stripSlash = (url: string) => url.replace(/\/$/, '');
+
+/** Case, spacing and Unicode form don't make two titles different */
+const normalize = (text: string) => text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+
+interface DuplicateCheck {
+  code: IssueCode;
+  severity: IssueSeverity;
+  field: 'title' | 'description' | 'h1';
+  label: string;
+  explanation: string;
+  suggestion: string;
+}
+
+const CHECKS: DuplicateCheck[] = [
+  {
+    code: 'DUPLICATE_TITLE',
+    severity: 'warning',
+    field: 'title',
+    label: 'title',
+    explanation:
+      'Search engines use the title to tell pages apart. Pages sharing one compete with each other for the same queries, and Google may rewrite the titles it shows.',
+    suggestion:
+      'Give each page a title that describes its own content, e.g. by including the product, location or other data the page is generated from.',
+  },
+  {
+    code: 'DUPLICATE_DESCRIPTION',
+    severity: 'warning',
+    field: 'description',
+    label: 'meta description',
+    explanation:
+      'A description shared by several pages says nothing about any of them, so search engines tend to ignore it and build their own snippet from the page text.',
+    suggestion: 'Write a description for each page, or generate one from the page data (in Next.js, in generateMetadata).',
+  },
+  {
+    code: 'DUPLICATE_H1',
+    severity: 'info',
+    field: 'h1',
+    label: 'H1',
+    explanation: 'The main heading is a strong hint of what a page is about. Identical headings make pages look interchangeable.',
+    suggestion: 'Use a heading that is specific to each page.',
+  },
+];
+
+/** Pages that load at their own URL and may be indexed */
+function isIndexable(page: CrawledPage): boolean {
+  if (page.status === undefined || page.status < 200 || page.status >= 300) return false;
+  if (page.finalUrl !== undefined && page.finalUrl !== page.url) return false;
+  return !page.noindex;
+}
+
+/** The URL search engines are asked to index instead of the page */
+const canonicalOf = (page: CrawledPage) => stripSlash(page.canonical ?? page.url);
+
+/** Only pages that would be indexed at their own URL can compete with each other */
+function isCandidate(page: CrawledPage): boolean {
+  return isIndexable(page) && canonicalOf(page) === stripSlash(page.url);
+}
+
+/**
+ * Groups crawled pages that share a title, meta description or H1, and
+ * pages whose main text is nearly the same. Pages that are noindexed,
+ * redirect or declare another canonical are left out of the first checks,
+ * since those are already the usual fixes for duplicates.
+ */
+export async function auditDuplicates(ctx: AuditContext): Promise<AuditFinding[]> {
+  const findings: AuditFinding[] = [];
+  const crawled = ctx.crawledPages ?? [];
+  const pages = crawled.filter(isCandidate);
+
+  for (const check of CHECKS) {
+    const groups = new Map<string, { text: string; urls: string[] }>();
+    for (const page of pages) {
+      const text = page[check.field];
+      if (!text) continue;
+      const key = normalize(text);
+      const group = groups.get(key);
+      if (group) {
+        group.urls.push(page.url);
+      } else {
+        groups.set(key, { text, urls: [page.url] });
+      }
+    }
+
+    const clusters = [...groups.values()]
+      .filter((group) => group.urls.length > 1)
+      .sort((a, b) => b.urls.length - a.urls.length);
+    for (const { text, urls } of clusters) {
+      findings.push({
+        code: check.code,
+        severity: check.severity,
+        category: 'crawl',
+        message: `${urls.length} pages share the ${check.label} "${text}"`,
+        explanation: check.explanation,
+        suggestion: check.suggestion,
+        details: { [check.field]: text, urls },
+        url: urls[0],
+      });
+    }
+  }
+
+  findings.push(...findNearDuplicates(crawled.filter(isIndexable), ctx.nearDuplicateThreshold ?? DEFAULT_NEAR_DUPLICATE_THRESHOLD));
+  return findings;
+}
+
+/**
+ * Clusters pages whose content fingerprints are at least `threshold`
+ * similar. A cluster is only harmless when every page in it names the same
+ * canonical URL, so search engines know which one to index.
+ */
+function findNearDuplicates(indexable: CrawledPage[], threshold: number): AuditFinding[] {
+  const pages = indexable.filter((p) => p.contentHash !== undefined);
+
+  // Union-find over the pairs that are similar enough
+  const parent = pages.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const edges: [number, number][] = [];
+  for (let i = 0; i < pages.length; i++) {
+    for (let j = i + 1; j < pages.length; j++) {
+      const score = similarity(pages[i].contentHash!, pages[j].contentHash!);
+      if (score >= threshold) {
+        edges.push([i, score]);
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+  // Lowest similarity of any pair joined into each cluster
+  const lowest = new Map<number, number>();
+  for (const [i, score] of edges) {
+    const root = find(i);
+    lowest.set(root, Math.min(lowest.get(root) ?? 1, score));
+  }
+
+  const clusters = new Map<number, CrawledPage[]>();
+  for (const [i, page] of pages.entries()) {
+    const root = find(i);
+    clusters.set(root, [...(clusters.get(root) ?? []), page]);
+  }
+
+  return [...clusters.entries()]
+    .filter(([, cluster]) => cluster.length > 1)
+    .sort(([, a], [, b]) => b.length - a.length)
+    .map(([root, cluster]): AuditFinding => {
+      const urls = cluster.map((p) => p.url);
+      const canonicals = new Set(cluster.map(canonicalOf));
+      const consolidated = canonicals.size === 1;
+      return {
+        code: 'NEAR_DUPLICATE_CONTENT',
+        severity: consolidated ? 'info' : 'warning',
+        category: 'crawl',
+        message: consolidated
+          ? `${urls.length} pages have near-duplicate content and share a canonical URL`
+          : `${urls.length} pages have near-duplicate content without a shared canonical URL`,
+        explanation: consolidated
+          ? 'These pages are nearly identical, but they all point their canonical to the same URL, so search engines index one of them.'
+          : 'These pages are nearly identical and each may be indexed on its own. Search engines pick one to show and may treat the rest as low-value, splitting ranking signals between them.',
+        suggestion: consolidated
+          ? 'No action needed unless these pages are meant to rank separately, in which case give each one distinct content.'
+          : 'Point the canonical of each copy to the preferred page, merge the pages, or give each one substantially different content.',
+        details: {
+          urls,
+          similarity: Math.round(lowest.get(root)! * 100) / 100,
+          consolidated,
+          ...(consolidated
+            ? { canonical: cluster[0].canonical ?? cluster[0].url }
+            : { canonicals: Object.fromEntries(cluster.map((p) => [p.url, p.canonical ?? null])) }),
+        },
+        url: urls[0],
+      };
+    });
+}
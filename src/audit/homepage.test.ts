@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { AuditContext } from '../types.js';
+import { loadHomepage } from './homepage.js';
+
+vi.mock('../utils/http.js', () => ({
+  fetchPage: vi.fn(),
+}));
+
+import { fetchPage } from '../utils/http.js';
+
+const mockFetchPage = vi.mocked(fetchPage);
+
+function makeCtx(): AuditContext {
+  return {
+    url: 'https://example.com',
+    normalizedUrl: 'https://example.com/',
+    fetchOptions: {},
+    verbose: false,
+  };
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+});
+
+describe('loadHomepage', () => {
+  it('stores html, headers and final URL on ctx', async () => {
+    mockFetchPage.mockResolvedValue({
+      body: '<html></html>',
+      status: 200,
+      headers: new Headers({ 'x-powered-by': 'Next.js' }),
+      finalUrl: 'https://www.example.com/',
+    });
+
+    const ctx = makeCtx();
+    const findings = await loadHomepage(ctx);
+
+    expect(findings).toHaveLength(0);
+    expect(ctx.html).toBe('<html></html>');
+    expect(ctx.headers).toEqual({ 'x-powered-by': 'Next.js' });
+    expect(ctx.finalUrl).toBe('https://www.example.com/');
+    expect(ctx.status).toBe(200);
+  });
+
+  it('leaves ctx untouched when the fetch fails', async () => {
+    mockFetchPage.mockRejectedValue(new Error('Network error'));
+
+    const ctx = makeCtx();
+    const findings = await loadHomepage(ctx);
+
+    expect(findings).toHaveLength(0);
+    expect(ctx.html).toBeUndefined();
+    expect(ctx.headers).toBeUndefined();
+  });
+
+  it('records a snapshot of the homepage', async () => {
+    mockFetchPage.mockResolvedValue({
+      body: '<html><head><title>Home</title><meta name="robots" content="noindex"><link rel="canonical" href="https://example.com/"></head></html>',
+      status: 200,
+      headers: new Headers(),
+      finalUrl: 'https://example.com/',
+    });
+
+    const ctx = { ...makeCtx(), snapshots: [] };
+    await loadHomepage(ctx);
+
+    expect(ctx.snapshots).toEqual([
+      { url: 'https://example.com/', status: 200, title: 'Home', canonical: 'https://example.com/', robots: 'noindex' },
+    ]);
+  });
+});
+
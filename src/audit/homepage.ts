@@ -0,0 +1,23 @@
+import type { AuditContext, AuditFinding } from '../types.js';
+import { fetchPage } from '../utils/http.js';
+import { takeSnapshot } from '../utils/snapshot.js';
+
+/**
+ * Fetches the homepage once and shares it with every module that consumes
+ * `html`, `headers` or `finalUrl`. Produces no findings of its own.
+ */
+export async function loadHomepage(ctx: AuditContext): Promise<AuditFinding[]> {
+  try {
+    const page = await fetchPage(ctx.normalizedUrl, ctx.fetchOptions);
+    ctx.html = page.body;
+    ctx.status = page.status;
+    ctx.headers = Object.fromEntries(page.headers.entries());
+    ctx.timing = page.timing;
+    ctx.finalUrl = page.finalUrl;
+    ctx.snapshots?.push(takeSnapshot(ctx.normalizedUrl, page.status, page.body, page.headers));
+  } catch {
+    // Consumers fall back to fetching on their own
+    ctx.snapshots?.push(takeSnapshot(ctx.normalizedUrl));
+  }
+  return [];
+}
@@ -228,7 +228,7 @@ describe('auditI18n', () => {
     const findings = await auditI18n(ctx);
     expect(mockFetchPage).toHaveBeenCalledOnce();
     expect(findings[0].code).toBe('HREFLANG_MISSING');
-    expect(ctx.html).toBe(html);
+    expect(ctx.html).toBeUndefined();
   });
 
   it('normalizes trailing slash when checking self-reference', async () => {
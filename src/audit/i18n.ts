@@ -30,8 +30,6 @@ export async function auditI18n(ctx: AuditContext): Promise<AuditFinding[]> {
     try {
       const page = await fetchPage(normalizedUrl, fetchOptions);
       html = page.body;
-      ctx.html = html;
-      ctx.headers = Object.fromEntries(page.headers.entries());
     } catch {
       return findings;
     }
@@ -203,7 +203,7 @@ describe('auditImages', () => {
     await auditImages(ctx);
 
     expect(mockFetchPage).toHaveBeenCalledTimes(1);
-    expect(ctx.html).toBe(html);
+    expect(ctx.html).toBeUndefined();
   });
 
   it('handles fetchHead failures gracefully', async () => {
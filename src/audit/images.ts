@@ -13,7 +13,6 @@ export async function auditImages(ctx: AuditContext): Promise<AuditFinding[]> {
     try {
       const page = await fetchPage(ctx.normalizedUrl, ctx.fetchOptions);
       html = page.body;
-      ctx.html = html;
     } catch {
       return findings;
     }
@@ -6,7 +6,11 @@ export { auditFavicon } from './favicon.js';
 export { auditNextjs } from './nextjs.js';
 export { auditStructuredData } from './structuredData.js';
 export { auditCrawl } from './crawl.js';
+export { auditCoverage } from './coverage.js';
+export { auditDuplicates } from './duplicates.js';
+export { auditLinks, auditExternalLinks } from './links.js';
 export { auditI18n } from './i18n.js';
 export { auditImages } from './images.js';
 export { auditSecurity } from './security.js';
 export { auditPerformance } from './performance.js';
+export { loadHomepage } from './homepage.js';
@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { AuditContext, CrawledPage } from '../types.js';
+import { auditExternalLinks, auditLinks } from './links.js';
+
+vi.mock('../utils/http.js', () => ({
+  fetchPage: vi.fn(),
+  fetchHead: vi.fn(),
+}));
+
+import { fetchHead, fetchPage } from '../utils/http.js';
+const mockFetchPage = vi.mocked(fetchPage);
+const mockFetchHead = vi.mocked(fetchHead);
+
+function makeCtx(overrides: Partial<AuditContext> = {}): AuditContext {
+  return {
+    url: 'https://example.com',
+    normalizedUrl: 'https://example.com/',
+    fetchOptions: {},
+    verbose: false,
+    ...overrides,
+  };
+}
+
+function nav(...hrefs: string[]): string {
+  return `<html><body><nav>${hrefs.map((h) => `<a href="${h}">${h.slice(1) || 'Home'}</a>`).join('')}</nav></body></html>`;
+}
+
+/** Serves 200s, except for the given statuses and redirects */
+function serve(site: { status?: Record<string, number>; redirect?: Record<string, string>; html?: Record<string, string> } = {}) {
+  mockFetchPage.mockImplementation(async (url: string) => {
+    const path = new URL(url).pathname;
+    if (path === '/down') throw new Error('timeout');
+    const target = site.redirect?.[path];
+    const finalPath = target ?? path;
+    return {
+      body: site.html?.[finalPath] ?? nav(),
+      status: site.status?.[finalPath] ?? 200,
+      headers: new Headers({ 'content-type': 'text/html' }),
+      finalUrl: `https://example.com${finalPath}`,
+    };
+  });
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+});
+
+describe('auditLinks', () => {
+  it('returns no findings when every link works', async () => {
+    serve();
+    const findings = await auditLinks(makeCtx({ html: nav('/', '/about', '/blog') }));
+    expect(findings).toEqual([]);
+    expect(mockFetchPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('reports broken links with their status and source', async () => {
+    serve({ status: { '/gone': 404 } });
+    const findings = await auditLinks(makeCtx({ html: nav('/about', '/gone') }));
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      code: 'BROKEN_INTERNAL_LINK',
+      severity: 'error',
+      category: 'links',
+      message: 'Broken internal link: https://example.com/gone returned HTTP 404 (linked from 1 page)',
+      url: 'https://example.com/gone',
+      details: { status: 404, sources: [{ page: 'https://example.com/', text: 'gone' }] },
+    });
+  });
+
+  it('reports links that cannot be fetched', async () => {
+    serve();
+    const [finding] = await auditLinks(makeCtx({ html: nav('/down') }));
+    expect(finding.code).toBe('BROKEN_INTERNAL_LINK');
+    expect(finding.message).toContain('could not be fetched');
+    expect(finding.details).toMatchObject({ status: undefined });
+  });
+
+  it('reports redirecting links separately with the final URL', async () => {
+    serve({ redirect: { '/old': '/new', '/moved': '/gone' }, status: { '/gone': 410 } });
+    const findings = await auditLinks(makeCtx({ html: nav('/old', '/moved') }));
+    expect(findings.map((f) => [f.code, f.url])).toEqual([
+      ['INTERNAL_LINK_REDIRECT', 'https://example.com/old'],
+      ['BROKEN_INTERNAL_LINK', 'https://example.com/moved'],
+    ]);
+    expect(findings[0]).toMatchObject({
+      severity: 'info',
+      message: 'Internal link redirects: https://example.com/old → https://example.com/new (linked from 1 page)',
+      details: { finalUrl: 'https://example.com/new' },
+    });
+    expect(findings[1].details).toMatchObject({ status: 410, finalUrl: 'https://example.com/gone' });
+  });
+
+  it('checks each target once and lists every page and anchor linking to it', async () => {
+    serve({ status: { '/gone': 404 } });
+    const page = (url: string, ...links: [string, string][]): CrawledPage => ({
+      url,
+      source: 'link',
+      depth: 1,
+      status: 200,
+      links: links.map(([href, text]) => ({ url: `https://example.com${href}`, text })),
+    });
+    const ctx = makeCtx({
+      html: nav('/gone'),
+      crawledPages: [
+        page('https://example.com/', ['/gone', 'Old page'], ['/gone', 'Old page']),
+        page('https://example.com/a', ['/gone', 'See also']),
+        page('https://example.com/b', ['/gone', 'Old page']),
+      ],
+    });
+    const findings = await auditLinks(ctx);
+
+    expect(mockFetchPage).toHaveBeenCalledTimes(1);
+    expect(findings).toHaveLength(1);
+    expect(findings[0].message).toContain('linked from 3 pages');
+    expect(findings[0].details!.sources).toEqual([
+      { page: 'https://example.com/', text: 'Old page' },
+      { page: 'https://example.com/a', text: 'See also' },
+      { page: 'https://example.com/b', text: 'Old page' },
+    ]);
+  });
+
+  it('checks links on the --pages paths', async () => {
+    serve({ status: { '/gone': 404 }, html: { '/docs': nav('/gone') } });
+    const findings = await auditLinks(makeCtx({ html: nav(), pages: ['/docs'] }));
+    expect(findings).toHaveLength(1);
+    expect(findings[0].details!.sources).toEqual([{ page: 'https://example.com/docs', text: 'gone' }]);
+  });
+
+  it('ignores links to other hosts', async () => {
+    serve();
+    const html = '<a href="https://other.com/x">x</a><a href="mailto:a@example.com">mail</a>';
+    expect(await auditLinks(makeCtx({ html }))).toEqual([]);
+    expect(mockFetchPage).not.toHaveBeenCalled();
+  });
+});
+
+describe('auditExternalLinks', () => {
+  function links(...hrefs: string[]): string {
+    return hrefs.map((h) => `<a href="${h}">${new URL(h).hostname}</a>`).join('');
+  }
+
+  /** HEAD and GET answers keyed by URL; unknown URLs are fine */
+  function serveExternal(head: Record<string, number | Error>, get: Record<string, number | Error> = {}) {
+    const answer = (table: Record<string, number | Error>, url: string) => {
+      const value = table[url] ?? 200;
+      if (value instanceof Error) throw value;
+      return value;
+    };
+    mockFetchHead.mockImplementation(async (url: string) => ({ status: answer(head, url), headers: new Headers() }));
+    mockFetchPage.mockImplementation(async (url: string) => ({
+      body: '', status: answer(get, url), headers: new Headers(), finalUrl: url,
+    }));
+  }
+
+  it('checks outbound links with HEAD', async () => {
+    serveExternal({});
+    const findings = await auditExternalLinks(makeCtx({ html: links('https://vercel.com/docs', 'https://example.com/about') }));
+    expect(findings).toEqual([]);
+    expect(mockFetchHead.mock.calls.map(([url]) => url)).toEqual(['https://vercel.com/docs']);
+    expect(mockFetchPage).not.toHaveBeenCalled();
+  });
+
+  it('falls back to GET when HEAD fails', async () => {
+    serveExternal({ 'https://a.com/': 405, 'https://b.com/': new Error('socket hang up') });
+    const findings = await auditExternalLinks(makeCtx({ html: links('https://a.com/', 'https://b.com/') }));
+    expect(findings).toEqual([]);
+    expect(mockFetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('groups dead links by the page they appear on', async () => {
+    const gone = 'https://old.example.org/post';
+    const down = 'https://down.dev/';
+    serveExternal({ [gone]: 404, [down]: new Error('fetch failed') }, { [gone]: 404, [down]: new Error('fetch failed') });
+    const ctx = makeCtx({
+      html: links(gone, 'https://vercel.com/'),
+      crawledPages: [{
+        url: 'https://example.com/blog',
+        source: 'link',
+        depth: 1,
+        status: 200,
+        links: [],
+        externalLinks: [{ url: gone, text: 'Old post' }, { url: down, text: 'Down' }, { url: gone, text: 'Again' }],
+      }],
+    });
+    const findings = await auditExternalLinks(ctx);
+
+    expect(mockFetchHead).toHaveBeenCalledTimes(3);
+    expect(findings).toHaveLength(2);
+    expect(findings[0]).toMatchObject({
+      code: 'DEAD_EXTERNAL_LINKS',
+      severity: 'warning',
+      category: 'links',
+      message: '2 dead external links on https://example.com/blog',
+      url: 'https://example.com/blog',
+      details: {
+        links: [
+          { url: gone, text: 'Old post', status: 404 },
+          { url: down, text: 'Down', error: 'fetch failed' },
+        ],
+      },
+    });
+    expect(findings[1]).toMatchObject({ message: '1 dead external link on https://example.com/', url: 'https://example.com/' });
+  });
+
+  it('does not count login walls and bot protection as dead', async () => {
+    const urls = ['https://a.com/', 'https://b.com/', 'https://c.com/', 'https://www.linkedin.com/in/someone'];
+    serveExternal({ 'https://a.com/': 401, 'https://b.com/': 403, 'https://c.com/': 429, [urls[3]]: 999 },
+      { 'https://a.com/': 401, 'https://b.com/': 403, 'https://c.com/': 429 });
+    expect(await auditExternalLinks(makeCtx({ html: links(...urls) }))).toEqual([]);
+  });
+
+  it('honours the allow and deny domain lists, including subdomains', async () => {
+    serveExternal({});
+    const html = links('https://www.linkedin.com/company/x', 'https://docs.github.com/', 'https://github.com/', 'https://vercel.com/');
+    await auditExternalLinks(makeCtx({ html, externalLinks: { deny: ['linkedin.com'] } }));
+    expect(mockFetchHead).toHaveBeenCalledTimes(3);
+
+    mockFetchHead.mockClear();
+    await auditExternalLinks(makeCtx({ html, externalLinks: { allow: ['github.com'], deny: ['docs.github.com'] } }));
+    expect(mockFetchHead.mock.calls.map(([url]) => url)).toEqual(['https://github.com/']);
+  });
+
+  it('limits requests in flight to each host', async () => {
+    let active = 0;
+    let peak = 0;
+    mockFetchHead.mockImplementation(async () => {
+      peak = Math.max(peak, ++active);
+      await new Promise((r) => setTimeout(r, 5));
+      active--;
+      return { status: 200, headers: new Headers() };
+    });
+    const html = links(...Array.from({ length: 6 }, (_, i) => `https://slow.com/${i}`));
+    await auditExternalLinks(makeCtx({ html }));
+    expect(mockFetchHead).toHaveBeenCalledTimes(6);
+    expect(peak).toBe(2);
+  });
+});
@@ -0,0 +1,198 @@
+import type { AuditContext, AuditFinding, ExternalLinkDomains, PageLink } from '../types.js';
+import { CRAWL_CONCURRENCY, EXTERNAL_HOST_CONCURRENCY, EXTERNAL_LINK_CONCURRENCY } from '../constants.js';
+import { fetchHead, fetchPage } from '../utils/http.js';
+import { getResolvedLinks } from '../utils/html-parser.js';
+import { mapWithConcurrency } from '../utils/pool.js';
+import { getOrigin } from '../utils/url.js';
+
+interface LinkSource {
+  page: string;
+  text: string;
+}
+
+/** The pages audited in this run and the links on each */
+async function collectPages(ctx: AuditContext): Promise<Map<string, PageLink[]>> {
+  const pages = new Map<string, PageLink[]>();
+  for (const page of ctx.crawledPages ?? []) {
+    pages.set(page.url, [...page.links, ...(page.externalLinks ?? [])]);
+  }
+
+  const homepage = ctx.finalUrl ?? ctx.normalizedUrl;
+  if (!pages.has(homepage) && ctx.html !== undefined) {
+    pages.set(homepage, getResolvedLinks(ctx.html, homepage));
+  }
+
+  const origin = getOrigin(ctx.normalizedUrl);
+  const extra = (ctx.pages ?? []).map((path) => `${origin}${path}`).filter((url) => !pages.has(url));
+  await mapWithConcurrency(extra, CRAWL_CONCURRENCY, async (url) => {
+    try {
+      const res = await fetchPage(url, ctx.fetchOptions);
+      const contentType = res.headers.get('content-type');
+      if (res.status >= 200 && res.status < 300 && (!contentType || /html/i.test(contentType))) {
+        pages.set(url, getResolvedLinks(res.body, res.finalUrl));
+      }
+    } catch {
+      // The redirects module reports pages that can't be reached
+    }
+  });
+  return pages;
+}
+
+/**
+ * Checks every internal `<a href>` on the audited pages (homepage,
+ * `--pages` and crawled pages). Each target is requested once, however
+ * many pages link to it; findings list every page and anchor that does.
+ */
+export async function auditLinks(ctx: AuditContext): Promise<AuditFinding[]> {
+  const findings: AuditFinding[] = [];
+  const host = new URL(ctx.finalUrl ?? ctx.normalizedUrl).host;
+  const pages = await collectPages(ctx);
+
+  const targets = new Map<string, LinkSource[]>();
+  for (const [page, links] of pages) {
+    for (const link of links) {
+      if (new URL(link.url).host !== host) continue;
+      const sources = targets.get(link.url) ?? [];
+      if (!sources.some((s) => s.page === page && s.text === link.text)) {
+        sources.push({ page, text: link.text });
+      }
+      targets.set(link.url, sources);
+    }
+  }
+
+  const results = await mapWithConcurrency([...targets], CRAWL_CONCURRENCY, async ([url, sources]) => {
+    try {
+      const res = await fetchPage(url, ctx.fetchOptions);
+      return { url, sources, status: res.status as number | undefined, finalUrl: res.finalUrl };
+    } catch {
+      return { url, sources, status: undefined, finalUrl: url };
+    }
+  });
+
+  for (const { url, sources, status, finalUrl } of results) {
+    const pageCount = new Set(sources.map((s) => s.page)).size;
+    const linkedFrom = `linked from ${pageCount} page${pageCount !== 1 ? 's' : ''}`;
+    const redirected = finalUrl !== url;
+
+    if (status === undefined || status >= 400) {
+      findings.push({
+        code: 'BROKEN_INTERNAL_LINK',
+        severity: 'error',
+        category: 'links',
+        message: status === undefined
+          ? `Broken internal link: ${url} could not be fetched (${linkedFrom})`
+          : `Broken internal link: ${url} returned HTTP ${status} (${linkedFrom})`,
+        explanation:
+          'Visitors who follow this link hit an error page, and search engines waste crawl budget on it. Link equity passed to a broken URL is lost.',
+        suggestion: 'Fix the target page, or update or remove the links listed in details.',
+        details: { status, ...(redirected && { finalUrl }), sources },
+        url,
+      });
+    } else if (redirected) {
+      findings.push({
+        code: 'INTERNAL_LINK_REDIRECT',
+        severity: 'info',
+        category: 'links',
+        message: `Internal link redirects: ${url} → ${finalUrl} (${linkedFrom})`,
+        explanation:
+          'Each redirect adds a round trip for visitors and crawlers, and search engines may take longer to consolidate signals on the final URL.',
+        suggestion: `Update the links listed in details to point to ${finalUrl} directly.`,
+        details: { status, finalUrl, sources },
+        url,
+      });
+    }
+  }
+
+  return findings;
+}
+
+interface LinkCheck {
+  status?: number;
+  error?: string;
+}
+
+// Login walls and bot protection, not proof that the page is gone
+const RESTRICTED_STATUSES = [401, 403, 429];
+
+function isDead(check: LinkCheck): boolean {
+  if (check.status === undefined) return true;
+  return check.status >= 400 && check.status < 600 && !RESTRICTED_STATUSES.includes(check.status);
+}
+
+function matchesDomain(hostname: string, domains: string[]): boolean {
+  return domains.some((domain) => hostname === domain || hostname.endsWith(`.${domain}`));
+}
+
+function shouldCheck(hostname: string, domains: ExternalLinkDomains = {}): boolean {
+  if (domains.allow && !matchesDomain(hostname, domains.allow)) return false;
+  return !matchesDomain(hostname, domains.deny ?? []);
+}
+
+/** HEAD first; some servers reject or mishandle it, so confirm failures with GET */
+async function checkExternalLink(url: string, ctx: AuditContext): Promise<LinkCheck> {
+  try {
+    const head = await fetchHead(url, ctx.fetchOptions);
+    if (!isDead({ status: head.status })) return { status: head.status };
+  } catch {
+    // Retry with GET below
+  }
+  try {
+    const res = await fetchPage(url, ctx.fetchOptions);
+    return { status: res.status };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Checks outbound links on the audited pages. Each URL is checked once,
+ * a few hosts at a time and only a couple of requests per host, and dead
+ * links are grouped by the page they appear on.
+ */
+export async function auditExternalLinks(ctx: AuditContext): Promise<AuditFinding[]> {
+  const findings: AuditFinding[] = [];
+  const host = new URL(ctx.finalUrl ?? ctx.normalizedUrl).host;
+  const pages = await collectPages(ctx);
+
+  const byHost = new Map<string, Set<string>>();
+  for (const links of pages.values()) {
+    for (const link of links) {
+      const target = new URL(link.url);
+      if (target.host === host || !shouldCheck(target.hostname, ctx.externalLinks)) continue;
+      byHost.set(target.host, (byHost.get(target.host) ?? new Set()).add(link.url));
+    }
+  }
+
+  const checks = new Map<string, LinkCheck>();
+  await mapWithConcurrency([...byHost.values()], EXTERNAL_LINK_CONCURRENCY, async (urls) => {
+    await mapWithConcurrency([...urls], EXTERNAL_HOST_CONCURRENCY, async (url) => {
+      checks.set(url, await checkExternalLink(url, ctx));
+    });
+  });
+
+  for (const [page, links] of pages) {
+    const dead = new Map<string, PageLink & LinkCheck>();
+    for (const link of links) {
+      const check = checks.get(link.url);
+      if (check && isDead(check) && !dead.has(link.url)) {
+        dead.set(link.url, { ...link, ...check });
+      }
+    }
+    if (dead.size === 0) continue;
+
+    findings.push({
+      code: 'DEAD_EXTERNAL_LINKS',
+      severity: 'warning',
+      category: 'links',
+      message: `${dead.size} dead external link${dead.size !== 1 ? 's' : ''} on ${page}`,
+      explanation:
+        'Links to pages that no longer exist frustrate visitors and make content look unmaintained to users and search engines alike.',
+      suggestion:
+        'Update each link to the page\'s new location, link to an archived copy, or remove it. Add domains that block automated checks to "externalLinks.deny" in the config.',
+      details: { links: [...dead.values()] },
+      url: page,
+    });
+  }
+
+  return findings;
+}
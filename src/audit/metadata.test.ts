@@ -268,11 +268,24 @@ describe('auditMetadata', () => {
     expect(broken!.message).toContain('could not be fetched');
   });
 
-  it('stores html and headers on ctx', async () => {
+  it('reuses html, headers and final URL from ctx instead of fetching', async () => {
+    const ctx = makeCtx({
+      html: FULL_HTML.replace('<meta name="robots" content="index, follow">', ''),
+      headers: { 'x-robots-tag': 'noindex' },
+      finalUrl: 'https://example.com/',
+    });
+    const findings = await auditMetadata(ctx);
+
+    expect(mockFetchPage).not.toHaveBeenCalled();
+    expect(findings.find((f) => f.code === 'X_ROBOTS_NOINDEX')).toBeDefined();
+    expect(findings.find((f) => f.code === 'CANONICAL_MISMATCH')).toBeUndefined();
+  });
+
+  it('does not write shared context fields when fetching on its own', async () => {
     const ctx = makeCtx();
     await auditMetadata(ctx);
-    expect(ctx.html).toBeDefined();
-    expect(ctx.headers).toBeDefined();
+    expect(ctx.html).toBeUndefined();
+    expect(ctx.headers).toBeUndefined();
   });
 
   it('does not report canonical mismatch when canonical matches page URL', async () => {
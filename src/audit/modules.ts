@@ -0,0 +1,69 @@
+import type { AuditModule } from '../types.js';
+import {
+  auditRedirects,
+  auditRobots,
+  auditSitemap,
+  auditMetadata,
+  auditFavicon,
+  auditNextjs,
+  auditStructuredData,
+  auditCrawl,
+  auditCoverage,
+  auditDuplicates,
+  auditLinks,
+  auditExternalLinks,
+  auditI18n,
+  auditImages,
+  auditSecurity,
+  auditPerformance,
+  loadHomepage,
+} from './index.js';
+
+/**
+ * Built-in audit modules. The runner schedules them from their
+ * `provides`/`consumes` declarations, so a new module only needs an entry here.
+ */
+export const builtInModules: AuditModule[] = [
+  { name: 'robots', categories: ['robots'], provides: ['robotsTxt'], run: auditRobots },
+  { name: 'redirects', categories: ['redirect'], run: auditRedirects },
+  { name: 'homepage', provides: ['html', 'headers', 'finalUrl'], run: loadHomepage },
+  { name: 'sitemap', categories: ['sitemap'], consumes: ['robotsTxt'], provides: ['sitemapUrls'], run: auditSitemap },
+  { name: 'metadata', categories: ['indexing', 'metadata'], consumes: ['html', 'headers', 'finalUrl'], run: auditMetadata },
+  { name: 'favicon', categories: ['favicon'], consumes: ['html'], run: auditFavicon },
+  { name: 'nextjs', categories: ['nextjs'], consumes: ['html', 'headers'], run: auditNextjs },
+  { name: 'structuredData', categories: ['structured-data'], consumes: ['html'], run: auditStructuredData },
+  { name: 'i18n', categories: ['i18n'], consumes: ['html'], run: auditI18n },
+  { name: 'images', categories: ['images'], consumes: ['html', 'headers'], run: auditImages },
+  { name: 'security', categories: ['security'], consumes: ['headers'], run: auditSecurity },
+  { name: 'performance', categories: ['performance'], consumes: ['html'], run: auditPerformance },
+  {
+    name: 'crawl',
+    categories: ['crawl'],
+    consumes: ['robotsTxt', 'html', 'finalUrl', 'sitemapUrls'],
+    provides: ['crawledPages'],
+    enabled: (ctx) => ctx.crawlLimit !== undefined,
+    run: auditCrawl,
+  },
+  {
+    name: 'coverage',
+    categories: ['crawl'],
+    consumes: ['sitemapUrls', 'crawledPages'],
+    enabled: (ctx) => ctx.crawlLimit !== undefined,
+    run: auditCoverage,
+  },
+  {
+    name: 'duplicates',
+    categories: ['crawl'],
+    consumes: ['crawledPages'],
+    enabled: (ctx) => ctx.crawlLimit !== undefined,
+    run: auditDuplicates,
+  },
+  { name: 'links', categories: ['links'], consumes: ['html', 'finalUrl', 'crawledPages'], run: auditLinks },
+  {
+    name: 'externalLinks',
+    categories: ['links'],
+    consumes: ['html', 'finalUrl', 'crawledPages'],
+    enabled: (ctx) => ctx.checkExternal === true,
+    run: auditExternalLinks,
+  },
+];
@@ -137,6 +137,36 @@ describe('auditPerformance', () => {
     expect(findings).toHaveLength(0);
   });
 
+  it('reports slow TTFB on the homepage', async () => {
+    const ctx = { ...makeCtx(CLEAN_HTML), timing: { ttfb: 2400, total: 2600, bytes: 1200 } };
+    const f = (await auditPerformance(ctx)).find((f) => f.code === 'SLOW_TTFB');
+    expect(f).toBeDefined();
+    expect(f!.severity).toBe('warning');
+    expect(f!.details).toMatchObject({ ttfb: 2400, threshold: 1800 });
+  });
+
+  it('uses the configured TTFB thresholds', async () => {
+    const ctx = {
+      ...makeCtx(CLEAN_HTML),
+      timing: { ttfb: 300, total: 320, bytes: 1200 },
+      ttfbThresholds: { info: 200, warning: 1000 },
+    };
+    const f = (await auditPerformance(ctx)).find((f) => f.code === 'SLOW_TTFB');
+    expect(f!.severity).toBe('info');
+  });
+
+  it('uses the timing of its own fetch when ctx.html is undefined', async () => {
+    mockFetchPage.mockResolvedValue({
+      body: CLEAN_HTML,
+      status: 200,
+      headers: new Headers(),
+      finalUrl: 'https://example.com/',
+      timing: { ttfb: 900, total: 950, bytes: 1200 },
+    });
+    const findings = await auditPerformance(makeCtx(undefined));
+    expect(findings.map((f) => f.code)).toEqual(['SLOW_TTFB']);
+  });
+
   it('returns empty findings when fetchPage fails', async () => {
     mockFetchPage.mockRejectedValue(new Error('timeout'));
     const findings = await auditPerformance(makeCtx(undefined));
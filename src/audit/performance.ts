@@ -1,5 +1,6 @@
 import type { AuditContext, AuditFinding } from '../types.js';
 import { fetchPage } from '../utils/http.js';
+import { checkTtfb } from '../utils/timing.js';
 
 const KB = 1024;
 const MB = 1024 * KB;
@@ -9,12 +10,14 @@ export async function auditPerformance(ctx: AuditContext): Promise<AuditFinding[
   const { normalizedUrl, fetchOptions } = ctx;
 
   let html: string;
+  let timing = ctx.timing;
   if (ctx.html) {
     html = ctx.html;
   } else {
     try {
       const res = await fetchPage(normalizedUrl, fetchOptions);
       html = res.body;
+      timing = res.timing;
     } catch {
       return findings;
     }
@@ -149,5 +152,11 @@ export async function auditPerformance(ctx: AuditContext): Promise<AuditFinding[
     }
   }
 
+  // 5. Slow server response
+  const slow = checkTtfb(normalizedUrl, timing, ctx.ttfbThresholds);
+  if (slow) {
+    findings.push(slow);
+  }
+
   return findings;
 }
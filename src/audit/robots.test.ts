@@ -168,4 +168,51 @@ describe('auditRobots', () => {
     const findings = await auditRobots(makeCtx());
     expect(findings.find((f) => f.code === 'ROBOTS_BLOCKS_ALL')).toBeUndefined();
   });
+
+  it('paces requests by the Crawl-delay for our user agent', async () => {
+    mockFetchPage.mockResolvedValue(
+      robotsPage('User-agent: Googlebot\nCrawl-delay: 1\n\nUser-agent: *\nCrawl-delay: 4\nSitemap: https://example.com/sitemap.xml\n'),
+    );
+    const limiter = { schedule: vi.fn(), setCrawlDelay: vi.fn() };
+    const session = { cache: new Map(), stats: { requests: 0, cached: 0 }, flaky: [], timings: [], limiter };
+
+    const findings = await auditRobots(makeCtx({ fetchOptions: { session } }));
+    expect(limiter.setCrawlDelay).toHaveBeenCalledWith('example.com', 4);
+    expect(findings.find((f) => f.code === 'ROBOTS_CRAWL_DELAY')?.message).toBe('robots.txt sets Crawl-delay: 4 for *');
+  });
+
+  it('uses the Crawl-delay of the matching user agent group', async () => {
+    mockFetchPage.mockResolvedValue(
+      robotsPage('User-agent: Googlebot\nCrawl-delay: 1\n\nUser-agent: *\nCrawl-delay: 4\n'),
+    );
+    const limiter = { schedule: vi.fn(), setCrawlDelay: vi.fn() };
+    const session = { cache: new Map(), stats: { requests: 0, cached: 0 }, flaky: [], timings: [], limiter };
+
+    await auditRobots(makeCtx({ fetchOptions: { session, userAgent: 'Mozilla/5.0 (compatible; Googlebot/2.1)' } }));
+    expect(limiter.setCrawlDelay).toHaveBeenCalledWith('example.com', 1);
+  });
+
+  it('paces the host robots.txt redirected to', async () => {
+    mockFetchPage.mockResolvedValue({
+      ...robotsPage('User-agent: *\nCrawl-delay: 2\n'),
+      finalUrl: 'https://www.example.com/robots.txt',
+    });
+    const limiter = { schedule: vi.fn(), setCrawlDelay: vi.fn() };
+    const session = { cache: new Map(), stats: { requests: 0, cached: 0 }, flaky: [], timings: [], limiter };
+
+    await auditRobots(makeCtx({ fetchOptions: { session } }));
+    expect(limiter.setCrawlDelay.mock.calls).toEqual([['example.com', 2], ['www.example.com', 2]]);
+  });
+
+  it('caps very long Crawl-delays', async () => {
+    mockFetchPage.mockResolvedValue(robotsPage('User-agent: *\nCrawl-delay: 3600\n'));
+    const limiter = { schedule: vi.fn(), setCrawlDelay: vi.fn() };
+    const session = { cache: new Map(), stats: { requests: 0, cached: 0 }, flaky: [], timings: [], limiter };
+
+    const findings = await auditRobots(makeCtx({ fetchOptions: { session } }));
+    expect(limiter.setCrawlDelay).toHaveBeenCalledWith('example.com', 10);
+    const finding = findings.find((f) => f.code === 'ROBOTS_CRAWL_DELAY');
+    expect(finding?.message).toBe('robots.txt sets Crawl-delay: 3600 for *');
+    expect(finding?.explanation).toContain('by at most 10 seconds');
+  });
 });
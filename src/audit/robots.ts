@@ -1,52 +1,21 @@
 import type { AuditContext, AuditFinding } from '../types.js';
-import { DEFAULT_PATHS } from '../constants.js';
+import { DEFAULT_PATHS, MAX_CRAWL_DELAY, USER_AGENT } from '../constants.js';
 import { fetchPage } from '../utils/http.js';
+import { parseRobotsTxt, selectRobotsRule } from '../utils/robots-parser.js';
 import { getOrigin } from '../utils/url.js';
 
-interface RobotsRule {
-  userAgent: string;
-  disallow: string[];
-  allow: string[];
-}
-
-function parseRobotsTxt(txt: string): { rules: RobotsRule[]; sitemaps: string[] } {
-  const lines = txt.split('\n').map((l) => l.trim());
-  const rules: RobotsRule[] = [];
-  const sitemaps: string[] = [];
-  let current: RobotsRule | null = null;
-
-  for (const line of lines) {
-    if (line.startsWith('#') || line === '') continue;
-
-    const [key, ...rest] = line.split(':');
-    const value = rest.join(':').trim();
-    const keyLower = key.toLowerCase().trim();
-
-    if (keyLower === 'user-agent') {
-      current = { userAgent: value, disallow: [], allow: [] };
-      rules.push(current);
-    } else if (keyLower === 'disallow' && current) {
-      if (value) current.disallow.push(value);
-    } else if (keyLower === 'allow' && current) {
-      if (value) current.allow.push(value);
-    } else if (keyLower === 'sitemap') {
-      if (value) sitemaps.push(value);
-    }
-  }
-
-  return { rules, sitemaps };
-}
-
 export async function auditRobots(ctx: AuditContext): Promise<AuditFinding[]> {
   const findings: AuditFinding[] = [];
   const origin = getOrigin(ctx.normalizedUrl);
   const robotsUrl = `${origin}${DEFAULT_PATHS.robotsTxt}`;
 
   let robotsTxt: string | undefined;
+  let servedFrom = robotsUrl;
   try {
     const res = await fetchPage(robotsUrl, ctx.fetchOptions);
     if (res.status === 200) {
       robotsTxt = res.body;
+      servedFrom = res.finalUrl;
       // Store for cross-module use
       ctx.robotsTxt = robotsTxt;
     } else {
@@ -117,6 +86,32 @@ export async function auditRobots(ctx: AuditContext): Promise<AuditFinding[]> {
     }
   }
 
+  // Pace the rest of the audit by the Crawl-delay for our user agent. When
+  // the apex redirects to www, the pages are fetched from where robots.txt
+  // ended up, so pace both hosts.
+  const ownRule = selectRobotsRule(rules, ctx.fetchOptions.userAgent ?? USER_AGENT);
+  if (ownRule?.crawlDelay) {
+    const delay = Math.min(ownRule.crawlDelay, MAX_CRAWL_DELAY);
+    for (const host of new Set([new URL(origin).host, new URL(servedFrom).host])) {
+      ctx.fetchOptions.session?.limiter?.setCrawlDelay(host, delay);
+    }
+    const capped = delay < ownRule.crawlDelay
+      ? ` The audit spaces its own requests by at most ${MAX_CRAWL_DELAY} seconds.`
+      : ' The audit spaces its own requests the same way.';
+    findings.push({
+      code: 'ROBOTS_CRAWL_DELAY',
+      severity: 'info',
+      category: 'robots',
+      message: `robots.txt sets Crawl-delay: ${ownRule.crawlDelay} for ${ownRule.userAgent}`,
+      explanation:
+        `Bing and Yandex wait this many seconds between requests, which slows down discovery of new pages. Google ignores Crawl-delay.${capped}`,
+      suggestion:
+        'Remove Crawl-delay unless your server cannot handle crawler traffic; use rate limiting at the edge instead.',
+      details: { rule: ownRule },
+      url: robotsUrl,
+    });
+  }
+
   // Check for sitemap directive
   if (sitemaps.length === 0) {
     findings.push({
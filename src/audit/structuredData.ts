@@ -21,7 +21,6 @@ export async function auditStructuredData(ctx: AuditContext): Promise<AuditFindi
     try {
       const page = await fetchPage(normalizedUrl, fetchOptions);
       html = page.body;
-      ctx.html = html;
     } catch {
       return findings;
     }
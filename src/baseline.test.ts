@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import type { AuditFinding, AuditModuleResult, AuditReport, Baseline } from './types.js';
+import { applyBaseline, createBaseline, parseBaseline } from './baseline.js';
+import { BASELINE_PLACEHOLDER_REASON } from './constants.js';
+
+function makeFinding(overrides: Partial<AuditFinding> = {}): AuditFinding {
+  return {
+    code: 'JSONLD_MISSING',
+    severity: 'warning',
+    category: 'structured-data',
+    message: 'msg',
+    explanation: 'exp',
+    suggestion: 'sug',
+    ...overrides,
+  };
+}
+
+function makeResults(findings: AuditFinding[]): AuditModuleResult[] {
+  return [{ module: 'structuredData', findings }];
+}
+
+function makeReport(findings: AuditFinding[]): AuditReport {
+  return {
+    url: 'https://example.com/',
+    timestamp: '2026-06-01T00:00:00.000Z',
+    duration: 100,
+    summary: { errors: 0, warnings: 0, info: 0, passed: 0 },
+    modules: makeResults(findings),
+  };
+}
+
+const NOW = new Date('2026-06-01T12:00:00Z');
+
+describe('parseBaseline', () => {
+  it('parses a valid baseline', () => {
+    const baseline = {
+      version: 1,
+      entries: [{ code: 'JSONLD_MISSING', url: '/docs/**', reason: 'Docs have no JSON-LD', expires: '2026-12-31' }],
+    };
+    expect(parseBaseline(JSON.stringify(baseline))).toEqual(baseline);
+  });
+
+  it('rejects invalid JSON and unknown versions', () => {
+    expect(() => parseBaseline('{ nope')).toThrow('Invalid baseline: invalid JSON');
+    expect(() => parseBaseline(JSON.stringify({ version: 2, entries: [] }))).toThrow('expected "version": 1');
+    expect(() => parseBaseline(JSON.stringify({ version: 1 }))).toThrow('missing entries array');
+  });
+
+  it('rejects entries without a reason or with a malformed expiry', () => {
+    expect(() => parseBaseline(JSON.stringify({ version: 1, entries: [{ code: 'JSONLD_MISSING' }] })))
+      .toThrow('entry 0 must have');
+    expect(() => parseBaseline(JSON.stringify({
+      version: 1,
+      entries: [{ code: 'JSONLD_MISSING', reason: 'ok', expires: 'next year' }],
+    }))).toThrow('entry 0 must have');
+  });
+});
+
+describe('applyBaseline', () => {
+  it('marks matching findings as suppressed', () => {
+    const baseline: Baseline = {
+      version: 1,
+      entries: [{ code: 'JSONLD_MISSING', url: '/docs/**', reason: 'Docs have no JSON-LD' }],
+    };
+    const [result] = applyBaseline(makeResults([
+      makeFinding({ url: 'https://example.com/docs/intro' }),
+      makeFinding({ url: 'https://example.com/blog' }),
+    ]), baseline, NOW);
+
+    expect(result.findings[0].suppressed).toEqual({ reason: 'Docs have no JSON-LD' });
+    expect(result.findings[1].suppressed).toBeUndefined();
+  });
+
+  it('matches findings without a URL only with entries without a URL', () => {
+    const baseline: Baseline = {
+      version: 1,
+      entries: [{ code: 'JSONLD_MISSING', url: '/', reason: 'Homepage only' }],
+    };
+    const [result] = applyBaseline(makeResults([makeFinding()]), baseline, NOW);
+    expect(result.findings[0].suppressed).toBeUndefined();
+  });
+
+  it('does not suppress passing checks', () => {
+    const baseline: Baseline = { version: 1, entries: [{ code: 'JSONLD_MISSING', reason: 'ok' }] };
+    const [result] = applyBaseline(makeResults([makeFinding({ severity: 'pass' })]), baseline, NOW);
+    expect(result.findings[0].suppressed).toBeUndefined();
+  });
+
+  it('keeps entries valid through their expiry date', () => {
+    const baseline: Baseline = {
+      version: 1,
+      entries: [{ code: 'JSONLD_MISSING', reason: 'ok', expires: '2026-06-01' }],
+    };
+    const results = applyBaseline(makeResults([makeFinding()]), baseline, NOW);
+    expect(results).toHaveLength(1);
+    expect(results[0].findings[0].suppressed).toEqual({ reason: 'ok', expires: '2026-06-01' });
+  });
+
+  it('reports expired entries and stops suppressing them', () => {
+    const baseline: Baseline = {
+      version: 1,
+      entries: [{ code: 'JSONLD_MISSING', url: '/docs/**', reason: 'Docs migration', expires: '2026-05-31' }],
+    };
+    const results = applyBaseline(
+      makeResults([makeFinding({ url: 'https://example.com/docs/intro' })]),
+      baseline,
+      NOW,
+    );
+
+    expect(results[0].findings[0].suppressed).toBeUndefined();
+    expect(results[1].module).toBe('baseline');
+    expect(results[1].findings).toHaveLength(1);
+    expect(results[1].findings[0].code).toBe('BASELINE_EXPIRED');
+    expect(results[1].findings[0].severity).toBe('warning');
+    expect(results[1].findings[0].message).toContain('JSONLD_MISSING on /docs/**');
+  });
+});
+
+describe('createBaseline', () => {
+  it('writes an entry per issue with same-origin URLs as paths', () => {
+    const baseline = createBaseline(makeReport([
+      makeFinding({ url: 'https://example.com/docs/intro' }),
+      makeFinding({ url: 'https://cdn.example.net/image.png', code: 'IMG_LARGE_FILE' }),
+      makeFinding({ code: 'HSTS_MISSING', severity: 'info' }),
+      makeFinding({ code: 'TITLE_MISSING', severity: 'pass' }),
+    ]));
+
+    expect(baseline).toEqual({
+      version: 1,
+      entries: [
+        { code: 'JSONLD_MISSING', url: '/docs/intro', reason: BASELINE_PLACEHOLDER_REASON },
+        { code: 'IMG_LARGE_FILE', url: 'https://cdn.example.net/image.png', reason: BASELINE_PLACEHOLDER_REASON },
+        { code: 'HSTS_MISSING', reason: BASELINE_PLACEHOLDER_REASON },
+      ],
+    });
+  });
+
+  it('deduplicates findings with the same code and URL', () => {
+    const baseline = createBaseline(makeReport([makeFinding(), makeFinding()]));
+    expect(baseline.entries).toHaveLength(1);
+  });
+
+  it('keeps existing entries that still match and drops stale ones', () => {
+    const previous: Baseline = {
+      version: 1,
+      entries: [
+        { code: 'JSONLD_MISSING', url: '/docs/**', reason: 'Docs have no JSON-LD', expires: '2026-12-31' },
+        { code: 'HSTS_MISSING', reason: 'Fixed already' },
+        { code: 'TITLE_MISSING', reason: 'Expired', expires: '2026-01-01' },
+      ],
+    };
+    const baseline = createBaseline(makeReport([
+      makeFinding({ url: 'https://example.com/docs/a' }),
+      makeFinding({ url: 'https://example.com/docs/b' }),
+      makeFinding({ code: 'TITLE_MISSING', severity: 'error', url: 'https://example.com/' }),
+      makeFinding({ code: 'BASELINE_EXPIRED', category: 'baseline' }),
+    ]), previous);
+
+    expect(baseline.entries).toEqual([
+      previous.entries[0],
+      { code: 'TITLE_MISSING', url: '/', reason: BASELINE_PLACEHOLDER_REASON },
+    ]);
+  });
+});
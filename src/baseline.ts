@@ -0,0 +1,164 @@
+import { readFileSync } from 'node:fs';
+import type {
+  AuditFinding,
+  AuditModuleResult,
+  AuditReport,
+  Baseline,
+  BaselineEntry,
+} from './types.js';
+import { matchUrlPattern } from './utils/glob.js';
+import { BASELINE_PLACEHOLDER_REASON } from './constants.js';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function isBaselineEntry(value: unknown): value is BaselineEntry {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const e = value as Record<string, unknown>;
+  return (
+    typeof e.code === 'string' && e.code.length > 0 &&
+    typeof e.reason === 'string' && e.reason.length > 0 &&
+    (e.url === undefined || (typeof e.url === 'string' && e.url.length > 0)) &&
+    (e.expires === undefined || (typeof e.expires === 'string' && DATE_RE.test(e.expires)))
+  );
+}
+
+export function parseBaseline(raw: string): Baseline {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('Invalid baseline: invalid JSON');
+  }
+
+  const baseline = parsed as Record<string, unknown> | null;
+  if (typeof baseline !== 'object' || baseline === null || baseline.version !== 1) {
+    throw new Error('Invalid baseline: expected "version": 1');
+  }
+  if (!Array.isArray(baseline.entries)) {
+    throw new Error('Invalid baseline: missing entries array');
+  }
+  baseline.entries.forEach((entry, i) => {
+    if (!isBaselineEntry(entry)) {
+      throw new Error(
+        `Invalid baseline: entry ${i} must have "code" and "reason" strings, an optional "url" glob and an optional "expires" date (YYYY-MM-DD)`,
+      );
+    }
+  });
+
+  return parsed as Baseline;
+}
+
+/** Read a baseline file, returning undefined when it does not exist. */
+export function loadBaseline(filePath: string): Baseline | undefined {
+  let raw: string;
+  try {
+    raw = readFileSync(filePath, 'utf-8');
+  } catch (err: unknown) {
+    if (err instanceof Error && 'code' in err && (err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw err;
+  }
+  return parseBaseline(raw);
+}
+
+function isExpired(entry: BaselineEntry, today: string): boolean {
+  // Entries stay valid through their expiry date
+  return entry.expires !== undefined && entry.expires < today;
+}
+
+function matchesEntry(finding: AuditFinding, entry: BaselineEntry): boolean {
+  if (finding.code !== entry.code) return false;
+  if (entry.url === undefined) return true;
+  return finding.url !== undefined && matchUrlPattern(entry.url, finding.url);
+}
+
+function expiredFinding(entry: BaselineEntry): AuditFinding {
+  const target = entry.url ? ` on ${entry.url}` : '';
+  return {
+    code: 'BASELINE_EXPIRED',
+    severity: 'warning',
+    category: 'baseline',
+    message: `Baseline entry for ${entry.code}${target} expired on ${entry.expires}`,
+    explanation: `This finding was accepted until ${entry.expires} ("${entry.reason}"). It is no longer suppressed.`,
+    suggestion: 'Fix the underlying issue and remove the entry, or renew it with a new expiry date and reason.',
+    details: { entry },
+  };
+}
+
+/**
+ * Mark findings accepted by the baseline as suppressed. Expired entries no
+ * longer suppress anything and are reported under a synthetic "baseline"
+ * module instead.
+ */
+export function applyBaseline(
+  results: AuditModuleResult[],
+  baseline: Baseline,
+  now: Date = new Date(),
+): AuditModuleResult[] {
+  const today = now.toISOString().slice(0, 10);
+  const active = baseline.entries.filter((e) => !isExpired(e, today));
+  const expired = baseline.entries.filter((e) => isExpired(e, today));
+
+  const marked = results.map((result) => ({
+    ...result,
+    findings: result.findings.map((finding) => {
+      if (finding.severity === 'pass') return finding;
+      const entry = active.find((e) => matchesEntry(finding, e));
+      if (!entry) return finding;
+      return {
+        ...finding,
+        suppressed: entry.expires ? { reason: entry.reason, expires: entry.expires } : { reason: entry.reason },
+      };
+    }),
+  }));
+
+  if (expired.length > 0) {
+    marked.push({ module: 'baseline', findings: expired.map(expiredFinding) });
+  }
+  return marked;
+}
+
+function toEntryUrl(findingUrl: string, reportUrl: string): string {
+  try {
+    const url = new URL(findingUrl);
+    return url.origin === new URL(reportUrl).origin ? url.pathname : url.href;
+  } catch {
+    return findingUrl;
+  }
+}
+
+/**
+ * Build a baseline accepting every current issue. Entries from `previous`
+ * that still match a finding are kept as written, so reasons, expiry dates
+ * and globs survive an update; other findings get a placeholder reason.
+ */
+export function createBaseline(report: AuditReport, previous?: Baseline): Baseline {
+  const today = report.timestamp.slice(0, 10);
+  const issues = report.modules
+    .flatMap((m) => m.findings)
+    .filter((f) => f.severity !== 'pass' && f.code !== 'BASELINE_EXPIRED');
+
+  const kept = (previous?.entries ?? []).filter(
+    (e) => !isExpired(e, today) && issues.some((f) => matchesEntry(f, e)),
+  );
+
+  const entries = [...kept];
+  const seen = new Set(entries.map((e) => `${e.code}::${e.url ?? ''}`));
+  for (const finding of issues) {
+    if (kept.some((e) => matchesEntry(finding, e))) continue;
+    const url = finding.url ? toEntryUrl(finding.url, report.url) : undefined;
+    const key = `${finding.code}::${url ?? ''}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    entries.push(url
+      ? { code: finding.code, url, reason: BASELINE_PLACEHOLDER_REASON }
+      : { code: finding.code, reason: BASELINE_PLACEHOLDER_REASON });
+  }
+
+  return { version: 1, entries };
+}
+
+export function formatBaseline(baseline: Baseline): string {
+  return `${JSON.stringify(baseline, null, 2)}\n`;
+}
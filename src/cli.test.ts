@@ -25,4 +25,24 @@ describe('getExitCode', () => {
   it('returns 0 when no errors or warnings and strict is true', () => {
     expect(getExitCode({ errors: 0, warnings: 0 }, true)).toBe(0);
   });
+
+  it('ignores module failures unless failOnModuleError is set', () => {
+    expect(getExitCode({ errors: 0, warnings: 0 }, false, { failures: 2 })).toBe(0);
+  });
+
+  it('returns 2 when modules failed and failOnModuleError is set', () => {
+    expect(getExitCode({ errors: 1, warnings: 0 }, false, { failures: 1, failOnModuleError: true })).toBe(2);
+  });
+
+  it('returns 0 with failOnModuleError when no module failed', () => {
+    expect(getExitCode({ errors: 0, warnings: 0 }, true, { failures: 0, failOnModuleError: true })).toBe(0);
+  });
+
+  it('returns 1 when the score is below minScore', () => {
+    expect(getExitCode({ errors: 0, warnings: 0 }, false, { score: 79, minScore: 80 })).toBe(1);
+  });
+
+  it('returns 0 when the score meets minScore', () => {
+    expect(getExitCode({ errors: 0, warnings: 0 }, false, { score: 80, minScore: 80 })).toBe(0);
+  });
 });
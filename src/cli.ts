@@ -2,12 +2,89 @@ import { readFileSync, writeFileSync } from 'node:fs';
 import { resolve } from 'node:path';
 import { Command } from 'commander';
 import { runAudit } from './runner.js';
-import { formatReport, formatJson, formatMarkdown, formatHtml, formatDiff, formatDiffJson } from './utils/output.js';
+import { runSites } from './sites.js';
+import {
+  formatReport,
+  formatJson,
+  formatMarkdown,
+  formatHtml,
+  formatDiff,
+  formatDiffJson,
+  formatSitesReport,
+  formatSitesMarkdown,
+  formatSitesHtml,
+  formatComparison,
+  formatComparisonJson,
+} from './utils/output.js';
 import { getExitCode } from './exitCode.js';
+import { diffReports, parseReport } from './diff.js';
+import { createBaseline, formatBaseline, loadBaseline } from './baseline.js';
+import { compareReports, hasRegressions } from './compare.js';
 import { parsePagesFlag } from './utils/parsePagesFlag.js';
+import { parseListFlag } from './utils/parseListFlag.js';
+import { buildRequestHeaders, parseCookieFlag, parseHeaderFlag } from './utils/requestHeaders.js';
 import { loadConfig } from './utils/config.js';
-import { USER_AGENT_PRESETS, DEFAULT_CRAWL_LIMIT } from './constants.js';
-import type { AuditFinding, AuditReport, DiffResult } from './types.js';
+import { loadPlugins } from './utils/plugins.js';
+import { loadHar, saveHar } from './utils/har.js';
+import { startStaticServer } from './utils/staticServer.js';
+import { startServer } from './utils/startServer.js';
+import type { LocalServer } from './utils/startServer.js';
+import { parseMapHostFlag } from './utils/hostMap.js';
+import { normalizeUrl } from './utils/url.js';
+import {
+  USER_AGENT_PRESETS,
+  DEFAULT_CRAWL_LIMIT,
+  DEFAULT_CRAWL_DEPTH,
+  DEFAULT_BASELINE_FILE,
+  DEFAULT_SITE_CONCURRENCY,
+  DEFAULT_READY_TIMEOUT,
+  DEFAULT_RETRIES,
+} from './constants.js';
+import type { AuditModule, AuditOptions, AuditReport, Baseline, SeoAuditConfig, SiteConfig } from './types.js';
+
+interface CliOptions {
+  json?: boolean;
+  verbose?: boolean;
+  strict?: boolean;
+  timeout: string;
+  pages?: string;
+  userAgent?: string;
+  report?: string;
+  crawl?: boolean | string;
+  crawlDepth?: string;
+  checkExternal?: boolean;
+  diff?: string;
+  failOnModuleError?: boolean;
+  only?: string;
+  skip?: string;
+  baseline?: string;
+  updateBaseline?: boolean;
+  minScore?: string;
+  urlsFile?: string;
+  concurrency?: string;
+  header?: string[];
+  cookie?: string[];
+  basicAuth?: string;
+  record?: string;
+  replay?: string;
+  dir?: string;
+  trailingSlash?: boolean;
+  cleanUrls?: boolean;
+  start?: string;
+  readyUrl?: string;
+  readyTimeout?: string;
+  mapHost?: string[];
+  rateLimit?: string;
+  hostConcurrency?: string;
+  retries?: string;
+  proxy?: string;
+  caFile?: string;
+  insecure?: boolean;
+}
+
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
 
 const program = new Command();
 
@@ -23,93 +100,113 @@ program
   .option('--pages <paths>', 'Comma-separated page paths to check for redirects (e.g. /about,/pricing)')
   .option('--user-agent <preset|string>', 'User-Agent for requests: googlebot, bingbot, or a custom string')
   .option('--report <format>', 'Write report to file: json, md, or html')
-  .option('--crawl [limit]', 'Crawl sitemap URLs and audit each page (default: 50)')
+  .option('--crawl [limit]', 'Crawl the site from the homepage and sitemap and audit each page (default: 50)')
+  .option('--crawl-depth <n>', `With --crawl, how many links deep to follow (default: ${DEFAULT_CRAWL_DEPTH})`)
+  .option('--check-external', 'Check outbound links on audited pages for dead targets')
   .option('--diff <path>', 'Compare against a previous report.json')
-  .action(async (urlArg: string | undefined, options: { json?: boolean; verbose?: boolean; strict?: boolean; timeout: string; pages?: string; userAgent?: string; report?: string; crawl?: boolean | string; diff?: string }) => {
-    // Load config file
-    let config;
-    try {
-      config = loadConfig();
-    } catch (err) {
-      console.error(err instanceof Error ? err.message : String(err));
-      process.exit(2);
-    }
-
-    // Resolve URL: CLI arg > config > error
-    const url = urlArg ?? config?.url;
-    if (!url) {
-      console.error('Error: URL is required. Provide it as an argument or set "url" in .seoauditrc.json');
-      process.exit(2);
-    }
-
-    // Merge options: CLI flags > config > defaults
-    const verbose = options.verbose ?? config?.verbose;
-    const strict = options.strict ?? config?.strict;
-
-    const timeoutSource = program.getOptionValueSource('timeout');
-    const timeout = timeoutSource === 'cli'
-      ? parseInt(options.timeout, 10)
-      : config?.timeout ?? parseInt(options.timeout, 10);
-    if (isNaN(timeout) || timeout <= 0) {
-      console.error('Error: --timeout must be a positive number');
-      process.exit(2);
-    }
+  .option('--fail-on-module-error', 'Exit with code 2 when an audit module crashes')
+  .option('--only <modules>', 'Comma-separated modules or categories to run (e.g. robots,sitemap)')
+  .option('--skip <modules>', 'Comma-separated modules or categories to leave out (e.g. images,security)')
+  .option('--baseline <path>', `Suppress findings accepted in a baseline file (default: ${DEFAULT_BASELINE_FILE} if present)`)
+  .option('--update-baseline', 'Write all current findings to the baseline file and exit 0')
+  .option('--min-score <score>', 'Exit with code 1 when the overall score is below this (0-100)')
+  .option('--urls-file <path>', 'Audit every URL listed in a file, one per line ("-" reads stdin)')
+  .option('--concurrency <n>', `Number of sites to audit at once (default: ${DEFAULT_SITE_CONCURRENCY})`)
+  .option('--header <header>', 'Extra request header for the audited site, e.g. "x-vercel-protection-bypass: ${SECRET}" (repeatable)', collect)
+  .option('--cookie <cookie>', 'Cookie for the audited site as name=value (repeatable)', collect)
+  .option('--basic-auth <user:password>', 'HTTP basic auth credentials for the audited site')
+  .option('--rate-limit <rps>', 'Maximum requests per second to each host')
+  .option('--host-concurrency <n>', 'Maximum requests in flight to each host')
+  .option('--retries <n>', `Retry network errors, 429 and 5xx responses up to n times (default: ${DEFAULT_RETRIES})`)
+  .option('--proxy <url>', 'Send requests through this proxy (default: HTTPS_PROXY/HTTP_PROXY, honouring NO_PROXY)')
+  .option('--ca-file <path>', 'Trust the CA certificates in this PEM file, in addition to the built-in ones')
+  .option('--insecure', 'Skip TLS certificate verification (not recommended)')
+  .option('--record <file>', 'Save every HTTP request and response to a HAR file')
+  .option('--replay <file>', 'Answer requests from a HAR file recorded with --record instead of the network')
+  .option('--dir <path>', 'Serve a static export (e.g. out/) locally and audit it instead of a URL')
+  .option('--trailing-slash', 'With --dir, redirect /about to /about/')
+  .option('--no-trailing-slash', 'With --dir, redirect /about/ to /about (default)')
+  .option('--no-clean-urls', 'With --dir, serve /about.html as-is instead of redirecting it to /about')
+  .option('--start <command>', 'Start a local server (e.g. "next start -p 4000"), audit it once ready, then stop it')
+  .option('--ready-url <url>', 'With --start, URL to poll until the server is up (default: the audited URL)')
+  .option('--ready-timeout <ms>', `With --start, how long to wait for the server (default: ${DEFAULT_READY_TIMEOUT})`)
+  .option('--map-host <host[=origin]>', 'Rewrite URLs on a production host to another origin, e.g. your-site.com=http://localhost:4000 (repeatable)', collect)
+  .action(async (urlArg: string | undefined, options: CliOptions) => {
+    const config = loadCliConfig();
 
-    // Validate URL
-    try {
-      const testUrl = /^https?:\/\//i.test(url) ? url : `https://${url}`;
-      new URL(testUrl);
-    } catch {
-      console.error(`Error: Invalid URL "${url}"`);
-      process.exit(2);
-    }
-
-    // Merge pages: CLI flag > config
-    let pages: string[] | undefined;
-    if (options.pages) {
+    // Resolve sites: --dir > --urls-file (plus URL arg) > URL arg > config sites > config url
+    let sites: SiteConfig[];
+    if (options.dir) {
+      if (urlArg || options.urlsFile || options.start) {
+        fail('Error: --dir audits a local directory and cannot be combined with a URL, --urls-file or --start');
+      }
+      // Next.js defaults: no trailing slash, pages served without .html
+      const cleanUrlsFromCli = program.getOptionValueSource('cleanUrls') === 'cli';
+      try {
+        const server = await startStaticServer(resolve(process.cwd(), options.dir), {
+          trailingSlash: options.trailingSlash ?? config?.trailingSlash ?? false,
+          cleanUrls: cleanUrlsFromCli ? options.cleanUrls : config?.cleanUrls ?? true,
+        });
+        sites = [{ url: server.url }];
+      } catch (err) {
+        fail(`Error: ${err instanceof Error ? err.message : err}`);
+      }
+    } else if (options.urlsFile) {
+      let listed: string[];
       try {
-        pages = parsePagesFlag(options.pages);
+        listed = parseUrlList(readFileSync(options.urlsFile === '-' ? 0 : resolve(process.cwd(), options.urlsFile), 'utf-8'));
       } catch (err) {
-        console.error(`Error: ${err instanceof Error ? err.message : err}`);
-        process.exit(2);
+        fail(`Error reading URL list: ${err instanceof Error ? err.message : err}`);
+      }
+      sites = [...(urlArg ? [urlArg] : []), ...listed].map((url) => ({ url }));
+      if (sites.length === 0) {
+        fail(`Error: no URLs found in ${options.urlsFile === '-' ? 'stdin' : options.urlsFile}`);
       }
-    } else if (config?.pages) {
-      pages = config.pages;
+    } else if (urlArg) {
+      sites = [{ url: urlArg }];
+    } else if (config?.sites) {
+      sites = config.sites;
+    } else if (config?.url) {
+      sites = [{ url: config.url }];
+    } else {
+      fail('Error: URL is required. Provide it as an argument or set "url" in .seoauditrc.json');
     }
 
+    const verbose = options.verbose ?? config?.verbose;
+
     // Merge report: CLI flag > config
     const report = options.report ?? config?.report;
     if (report && report !== 'json' && report !== 'md' && report !== 'html') {
-      console.error('Error: --report must be "json", "md", or "html"');
-      process.exit(2);
+      fail('Error: --report must be "json", "md", or "html"');
     }
 
-    // Parse --crawl option (CLI-only)
-    let crawl: number | undefined;
-    if (options.crawl !== undefined) {
-      crawl = options.crawl === true ? DEFAULT_CRAWL_LIMIT : parseInt(String(options.crawl), 10);
-      if (isNaN(crawl) || crawl <= 0) {
-        console.error('Error: --crawl must be a positive number');
-        process.exit(2);
+    const plugins = await loadCliPlugins(config);
+    const archive = openArchive(options);
+
+    // Per-site settings: CLI flags > site overrides > config > defaults
+    const timeoutFromCli = program.getOptionValueSource('timeout') === 'cli';
+    const plans = sites.map((site) =>
+      resolveSite({ ...config, ...site }, options, { verbose, plugins, timeoutFromCli, archive }),
+    );
+
+    warnIfInsecure(plans);
+
+    if (plans.length > 1) {
+      if (options.start) {
+        fail('Error: --start works with a single site');
       }
+      await auditSites(plans, options, verbose ?? false, report, archive);
+      return;
     }
 
-    // Merge user-agent: CLI flag > config
-    const userAgentRaw = options.userAgent ?? config?.userAgent;
-    let userAgent: string | undefined;
-    if (userAgentRaw) {
-      const lower = userAgentRaw.toLowerCase();
-      userAgent = USER_AGENT_PRESETS[lower] ?? userAgentRaw;
-    }
+    const plan = plans[0];
+    const { strict, failOnModuleError, minScore, baseline, baselinePath, baselineSource } = plan;
+    const server = options.start ? await startLocalServer(options.start, plan.url, options) : undefined;
 
     try {
-      const auditReport = await runAudit(url, {
-        verbose,
-        timeout,
-        pages,
-        userAgent,
-        crawl,
-      });
+      // The local server is only needed while the audit is fetching pages
+      const auditReport = await runAudit(plan.url, plan.auditOptions).finally(() => server?.stop());
+      saveRecording(options, archive);
 
       if (options.json) {
         console.log(formatJson(auditReport));
@@ -119,46 +216,23 @@ program
 
       // Write report file if requested
       if (report) {
-        const fileNames: Record<string, string> = { json: 'report.json', md: 'report.md', html: 'report.html' };
-        const formatters: Record<string, () => string> = {
+        writeReport(report, {
           json: () => formatJson(auditReport),
           md: () => formatMarkdown(auditReport),
           html: () => formatHtml(auditReport),
-        };
-        const fileName = fileNames[report];
-        const content = formatters[report]();
-        const filePath = resolve(process.cwd(), fileName);
-        writeFileSync(filePath, content, 'utf-8');
-        console.log(`\nReport written to ${fileName}`);
+        });
       }
 
       // Diff against previous report (CLI-only)
       if (options.diff) {
         let previousReport: AuditReport;
         try {
-          const raw = readFileSync(resolve(process.cwd(), options.diff), 'utf-8');
-          previousReport = JSON.parse(raw) as AuditReport;
-          if (!Array.isArray(previousReport.modules)) {
-            throw new Error('Invalid report: missing modules array');
-          }
+          previousReport = parseReport(readFileSync(resolve(process.cwd(), options.diff), 'utf-8'));
         } catch (err) {
-          console.error(`Error reading previous report: ${err instanceof Error ? err.message : err}`);
-          process.exit(2);
+          fail(`Error reading previous report: ${err instanceof Error ? err.message : err}`);
         }
 
-        const toKey = (f: AuditFinding) => `${f.code}::${f.url ?? ''}`;
-
-        const currentFindings = auditReport.modules.flatMap((m) => m.findings);
-        const previousFindings = previousReport.modules.flatMap((m) => m.findings);
-
-        const previousKeys = new Set(previousFindings.map(toKey));
-        const currentKeys = new Set(currentFindings.map(toKey));
-
-        const diff: DiffResult = {
-          newIssues: currentFindings.filter((f) => !previousKeys.has(toKey(f))),
-          resolvedIssues: previousFindings.filter((f) => !currentKeys.has(toKey(f))),
-          unchanged: currentFindings.filter((f) => previousKeys.has(toKey(f))),
-        };
+        const diff = diffReports(previousReport, auditReport);
 
         if (options.json) {
           console.log(formatDiffJson(diff));
@@ -167,16 +241,433 @@ program
         }
       }
 
+      // Accept every current finding (CLI-only)
+      if (options.updateBaseline) {
+        const updated = createBaseline(auditReport, baseline);
+        writeFileSync(baselinePath, formatBaseline(updated), 'utf-8');
+        console.log(`\nBaseline written to ${baselineSource ?? DEFAULT_BASELINE_FILE} (${updated.entries.length} entries)`);
+        process.exit(0);
+      }
+
       // Exit code based on findings
-      const code = getExitCode(auditReport.summary, strict ?? false);
-      if (code !== 0 && strict && auditReport.summary.warnings > 0) {
+      const failures = auditReport.failures?.length ?? 0;
+      const score = auditReport.score?.overall;
+      const code = getExitCode(auditReport.summary, strict, { failures, failOnModuleError, score, minScore });
+      if (code === 2) {
+        console.error(`${failures} audit module(s) failed`);
+      } else if (code !== 0 && strict && auditReport.summary.warnings > 0) {
         console.error('Warnings found in strict mode');
+      } else if (code !== 0 && auditReport.summary.errors === 0) {
+        console.error(`Score ${score} is below the minimum of ${minScore}`);
       }
       process.exit(code);
     } catch (err) {
+      saveRecording(options, archive);
+      console.error('Fatal error:', err instanceof Error ? err.message : err);
+      process.exit(2);
+    }
+  });
+
+program
+  .command('compare')
+  .description('Compare two deployments of a site (e.g. production and a preview) and report regressions per path')
+  .argument('<base>', 'URL of the reference deployment (e.g. production)')
+  .argument('<target>', 'URL of the deployment to check (e.g. a preview)')
+  .option('--json', 'Output the comparison as JSON')
+  .option('-S, --strict', 'Treat new warnings as regressions')
+  .option('--timeout <ms>', 'Request timeout in milliseconds', '10000')
+  .option('--pages <paths>', 'Comma-separated page paths to check for redirects (e.g. /about,/pricing)')
+  .option('--user-agent <preset|string>', 'User-Agent for requests: googlebot, bingbot, or a custom string')
+  .option('--crawl [limit]', 'Crawl both deployments from the homepage and sitemap and compare each page (default: 50)')
+  .option('--crawl-depth <n>', `With --crawl, how many links deep to follow (default: ${DEFAULT_CRAWL_DEPTH})`)
+  .option('--only <modules>', 'Comma-separated modules or categories to run (e.g. robots,sitemap)')
+  .option('--skip <modules>', 'Comma-separated modules or categories to leave out (e.g. images,security)')
+  .option('--header <header>', 'Extra request header for the audited site, e.g. "x-vercel-protection-bypass: ${SECRET}" (repeatable)', collect)
+  .option('--cookie <cookie>', 'Cookie for the audited site as name=value (repeatable)', collect)
+  .option('--basic-auth <user:password>', 'HTTP basic auth credentials for the audited site')
+  .option('--rate-limit <rps>', 'Maximum requests per second to each host')
+  .option('--host-concurrency <n>', 'Maximum requests in flight to each host')
+  .option('--retries <n>', `Retry network errors, 429 and 5xx responses up to n times (default: ${DEFAULT_RETRIES})`)
+  .option('--proxy <url>', 'Send requests through this proxy (default: HTTPS_PROXY/HTTP_PROXY, honouring NO_PROXY)')
+  .option('--ca-file <path>', 'Trust the CA certificates in this PEM file, in addition to the built-in ones')
+  .option('--insecure', 'Skip TLS certificate verification (not recommended)')
+  .option('--record <file>', 'Save every HTTP request and response to a HAR file')
+  .option('--replay <file>', 'Answer requests from a HAR file recorded with --record instead of the network')
+  .option('--map-host <host[=origin]>', 'Rewrite URLs on a production host to another origin, e.g. your-site.com=http://localhost:4000 (repeatable)', collect)
+  .action(async (baseUrl: string, targetUrl: string, options: CliOptions, command: Command) => {
+    const config = loadCliConfig();
+    const plugins = await loadCliPlugins(config);
+    const archive = openArchive(options);
+    const timeoutFromCli = command.getOptionValueSource('timeout') === 'cli';
+    const [base, target] = [baseUrl, targetUrl].map((url) =>
+      resolveSite({ ...config, url }, options, { verbose: false, plugins, timeoutFromCli, archive }),
+    );
+
+    warnIfInsecure([base, target]);
+
+    try {
+      const [baseReport, targetReport] = await Promise.all([
+        runAudit(base.url, base.auditOptions),
+        runAudit(target.url, target.auditOptions),
+      ]);
+      saveRecording(options, archive);
+      const result = compareReports(baseReport, targetReport);
+
+      if (options.json) {
+        console.log(formatComparisonJson(result));
+      } else {
+        console.log(formatComparison(result));
+      }
+
+      const regressed = hasRegressions(result, base.strict);
+      if (regressed) {
+        console.error(`${target.url} regressed compared to ${base.url}`);
+      }
+      process.exit(regressed ? 1 : 0);
+    } catch (err) {
+      saveRecording(options, archive);
       console.error('Fatal error:', err instanceof Error ? err.message : err);
       process.exit(2);
     }
   });
 
+function fail(message: string): never {
+  console.error(message);
+  process.exit(2);
+}
+
+function loadCliConfig(): SeoAuditConfig | undefined {
+  try {
+    return loadConfig();
+  } catch (err) {
+    fail(err instanceof Error ? err.message : String(err));
+  }
+}
+
+// Load plugin modules listed in config (config-only)
+async function loadCliPlugins(config: SeoAuditConfig | undefined): Promise<AuditModule[] | undefined> {
+  if (!config?.plugins) return undefined;
+  try {
+    return await loadPlugins(config.plugins);
+  } catch (err) {
+    fail(err instanceof Error ? err.message : String(err));
+  }
+}
+
+function parseUrlList(raw: string): string[] {
+  return raw
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line !== '' && !line.startsWith('#'));
+}
+
+async function startLocalServer(command: string, url: string, options: CliOptions): Promise<LocalServer> {
+  const timeout = options.readyTimeout !== undefined ? parseInt(options.readyTimeout, 10) : DEFAULT_READY_TIMEOUT;
+  if (isNaN(timeout) || timeout <= 0) {
+    fail('Error: --ready-timeout must be a positive number');
+  }
+  const readyUrl = options.readyUrl ?? normalizeUrl(url);
+  console.error(`Starting "${command}" and waiting for ${readyUrl}...`);
+  try {
+    return await startServer(command, { readyUrl, timeout });
+  } catch (err) {
+    fail(`Error: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+function warnIfInsecure(plans: SitePlan[]): void {
+  if (plans.some((plan) => plan.auditOptions.insecure)) {
+    console.error('Warning: TLS certificate verification is disabled (--insecure)');
+  }
+}
+
+type Archive = Pick<AuditOptions, 'record' | 'replay'>;
+
+// --record collects exchanges from every audit in the run into one list;
+// --replay loads the archive once and shares it between sites
+function openArchive(options: CliOptions): Archive {
+  if (options.record && options.replay) {
+    fail('Error: --record and --replay cannot be used together');
+  }
+  if (options.record) {
+    return { record: [] };
+  }
+  if (options.replay) {
+    try {
+      return { replay: loadHar(resolve(process.cwd(), options.replay)) };
+    } catch (err) {
+      fail(`Error reading replay file: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return {};
+}
+
+function saveRecording(options: CliOptions, archive: Archive): void {
+  if (!options.record || !archive.record) return;
+  saveHar(resolve(process.cwd(), options.record), archive.record);
+  console.error(`Recorded ${archive.record.length} request(s) to ${options.record}`);
+}
+
+function writeReport(format: string, formatters: Record<string, () => string>): void {
+  const fileNames: Record<string, string> = { json: 'report.json', md: 'report.md', html: 'report.html' };
+  const fileName = fileNames[format];
+  const filePath = resolve(process.cwd(), fileName);
+  writeFileSync(filePath, formatters[format](), 'utf-8');
+  console.log(`\nReport written to ${fileName}`);
+}
+
+interface SitePlan {
+  url: string;
+  auditOptions: AuditOptions;
+  strict: boolean;
+  failOnModuleError: boolean;
+  minScore?: number;
+  baseline?: Baseline;
+  baselinePath: string;
+  baselineSource?: string;
+}
+
+function resolveSite(
+  config: SeoAuditConfig & { url: string },
+  options: CliOptions,
+  { verbose, plugins, timeoutFromCli, archive }: {
+    verbose?: boolean;
+    plugins?: AuditModule[];
+    timeoutFromCli: boolean;
+    archive: Archive;
+  },
+): SitePlan {
+  const url = config.url;
+
+  // Merge options: CLI flags > config > defaults
+  const strict = options.strict ?? config.strict ?? false;
+  const failOnModuleError = options.failOnModuleError ?? config.failOnModuleError ?? false;
+
+  const timeout = timeoutFromCli
+    ? parseInt(options.timeout, 10)
+    : config.timeout ?? parseInt(options.timeout, 10);
+  if (isNaN(timeout) || timeout <= 0) {
+    fail('Error: --timeout must be a positive number');
+  }
+
+  // Validate URL
+  try {
+    const testUrl = /^https?:\/\//i.test(url) ? url : `https://${url}`;
+    new URL(testUrl);
+  } catch {
+    fail(`Error: Invalid URL "${url}"`);
+  }
+
+  // Merge pages: CLI flag > config
+  let pages: string[] | undefined;
+  if (options.pages) {
+    try {
+      pages = parsePagesFlag(options.pages);
+    } catch (err) {
+      fail(`Error: ${err instanceof Error ? err.message : err}`);
+    }
+  } else if (config.pages) {
+    pages = config.pages;
+  }
+
+  // Merge module selection: CLI flag > config
+  let only: string[] | undefined;
+  let skip: string[] | undefined;
+  try {
+    only = options.only ? parseListFlag('--only', options.only) : config.only;
+    skip = options.skip ? parseListFlag('--skip', options.skip) : config.skip;
+  } catch (err) {
+    fail(`Error: ${err instanceof Error ? err.message : err}`);
+  }
+
+  // Merge minimum score: CLI flag > config
+  const minScore = options.minScore !== undefined ? Number(options.minScore) : config.minScore;
+  if (minScore !== undefined && (isNaN(minScore) || minScore < 0 || minScore > 100)) {
+    fail('Error: --min-score must be a number between 0 and 100');
+  }
+
+  // Merge request pacing: CLI flags > config
+  const rateLimit = options.rateLimit !== undefined ? Number(options.rateLimit) : config.rateLimit;
+  if (rateLimit !== undefined && (isNaN(rateLimit) || rateLimit <= 0)) {
+    fail('Error: --rate-limit must be a positive number');
+  }
+  const hostConcurrency = options.hostConcurrency !== undefined ? Number(options.hostConcurrency) : config.hostConcurrency;
+  if (hostConcurrency !== undefined && (!Number.isInteger(hostConcurrency) || hostConcurrency <= 0)) {
+    fail('Error: --host-concurrency must be a positive integer');
+  }
+
+  // Merge retries: CLI flag > config > default
+  const retries = options.retries !== undefined ? Number(options.retries) : config.retries;
+  if (retries !== undefined && (!Number.isInteger(retries) || retries < 0)) {
+    fail('Error: --retries must be a non-negative integer');
+  }
+
+  // Merge proxy and TLS settings: CLI flags > config
+  const proxy = options.proxy ?? config.proxy;
+  if (proxy !== undefined && (!/^https?:\/\//i.test(proxy) || !URL.canParse(proxy))) {
+    fail('Error: --proxy must be an http:// or https:// URL');
+  }
+  const caFile = options.caFile ?? config.caFile;
+  let ca: string | undefined;
+  if (caFile) {
+    try {
+      ca = readFileSync(resolve(process.cwd(), caFile), 'utf-8');
+    } catch (err) {
+      fail(`Error reading CA file: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  const insecure = options.insecure ?? config.insecure ?? false;
+
+  // Parse --crawl option (CLI-only)
+  let crawl: number | undefined;
+  if (options.crawl !== undefined) {
+    crawl = options.crawl === true ? DEFAULT_CRAWL_LIMIT : parseInt(String(options.crawl), 10);
+    if (isNaN(crawl) || crawl <= 0) {
+      fail('Error: --crawl must be a positive number');
+    }
+  }
+  let crawlDepth: number | undefined;
+  if (options.crawlDepth !== undefined) {
+    crawlDepth = Number(options.crawlDepth);
+    if (!Number.isInteger(crawlDepth) || crawlDepth < 0) {
+      fail('Error: --crawl-depth must be a non-negative integer');
+    }
+  }
+
+  // Merge user-agent: CLI flag > config
+  const userAgentRaw = options.userAgent ?? config.userAgent;
+  let userAgent: string | undefined;
+  if (userAgentRaw) {
+    const lower = userAgentRaw.toLowerCase();
+    userAgent = USER_AGENT_PRESETS[lower] ?? userAgentRaw;
+  }
+
+  // Merge request credentials: CLI flags > config, expanding ${VAR} from the environment
+  let headers: Record<string, string> | undefined;
+  try {
+    const requestHeaders = buildRequestHeaders({
+      headers: { ...config.headers, ...Object.fromEntries((options.header ?? []).map(parseHeaderFlag)) },
+      cookies: { ...config.cookies, ...Object.fromEntries((options.cookie ?? []).map(parseCookieFlag)) },
+      basicAuth: options.basicAuth ?? config.basicAuth,
+    });
+    headers = Object.keys(requestHeaders).length > 0 ? requestHeaders : undefined;
+  } catch (err) {
+    fail(`Error: ${err instanceof Error ? err.message : err}`);
+  }
+
+  // Merge host mapping: CLI flags > config; a bare host maps to the audited origin
+  let hostMap: Record<string, string> | undefined;
+  try {
+    const origin = new URL(normalizeUrl(url)).origin;
+    const merged = { ...config.hostMap, ...Object.fromEntries((options.mapHost ?? []).map((flag) => parseMapHostFlag(flag, origin))) };
+    hostMap = Object.keys(merged).length > 0 ? merged : undefined;
+  } catch (err) {
+    fail(`Error: ${err instanceof Error ? err.message : err}`);
+  }
+
+  // Load baseline: CLI flag > config > default file when present
+  const baselineSource = options.baseline ?? config.baseline;
+  const baselinePath = resolve(process.cwd(), baselineSource ?? DEFAULT_BASELINE_FILE);
+  let baseline: Baseline | undefined;
+  try {
+    baseline = loadBaseline(baselinePath);
+  } catch (err) {
+    fail(`Error reading baseline: ${err instanceof Error ? err.message : err}`);
+  }
+  if (!baseline && baselineSource && !options.updateBaseline) {
+    fail(`Error: baseline file not found: ${baselineSource}`);
+  }
+
+  return {
+    url,
+    auditOptions: {
+      verbose,
+      timeout,
+      pages,
+      userAgent,
+      headers,
+      hostMap,
+      rateLimit,
+      hostConcurrency,
+      retries,
+      proxy,
+      ca,
+      insecure,
+      crawl,
+      crawlDepth,
+      plugins,
+      only,
+      skip,
+      rules: config.rules,
+      baseline,
+      scoreWeights: config.scoreWeights,
+      ttfbThresholds: config.ttfbThresholds,
+      checkExternal: options.checkExternal ?? config.checkExternal,
+      externalLinks: config.externalLinks,
+      nearDuplicateThreshold: config.nearDuplicateThreshold,
+      ...archive,
+    },
+    strict,
+    failOnModuleError,
+    minScore,
+    baseline,
+    baselinePath,
+    baselineSource,
+  };
+}
+
+async function auditSites(
+  plans: SitePlan[],
+  options: CliOptions,
+  verbose: boolean,
+  report: string | undefined,
+  archive: Archive,
+): Promise<void> {
+  if (options.diff || options.updateBaseline) {
+    fail('Error: --diff and --update-baseline work with a single site');
+  }
+
+  const concurrency = options.concurrency !== undefined ? parseInt(options.concurrency, 10) : DEFAULT_SITE_CONCURRENCY;
+  if (isNaN(concurrency) || concurrency <= 0) {
+    fail('Error: --concurrency must be a positive number');
+  }
+
+  const sitesReport = await runSites(
+    plans.map((plan) => ({ url: plan.url, options: plan.auditOptions })),
+    concurrency,
+  );
+  saveRecording(options, archive);
+
+  if (options.json) {
+    console.log(formatJson(sitesReport));
+  } else {
+    console.log(formatSitesReport(sitesReport, verbose));
+  }
+
+  if (report) {
+    writeReport(report, {
+      json: () => formatJson(sitesReport),
+      md: () => formatSitesMarkdown(sitesReport),
+      html: () => formatSitesHtml(sitesReport),
+    });
+  }
+
+  // Combined exit code: the worst of the per-site codes, 2 for sites that could not run
+  const codes = sitesReport.sites.map(({ report: siteReport }, i) => {
+    if (!siteReport) return 2;
+    const { strict, failOnModuleError, minScore } = plans[i];
+    return getExitCode(siteReport.summary, strict, {
+      failures: siteReport.failures?.length ?? 0,
+      failOnModuleError,
+      score: siteReport.score?.overall,
+      minScore,
+    });
+  });
+  const failing = codes.filter((c) => c !== 0).length;
+  if (failing > 0) {
+    console.error(`${failing} of ${codes.length} sites failed the audit`);
+  }
+  process.exit(Math.max(...codes));
+}
+
 program.parse();
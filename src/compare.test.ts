@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import type { AuditFinding, AuditReport, PageSnapshot } from './types.js';
+import { compareReports, findingPath, hasRegressions } from './compare.js';
+
+function makeFinding(overrides: Partial<AuditFinding> = {}): AuditFinding {
+  return {
+    code: 'CRAWL_PAGE_TITLE_MISSING',
+    severity: 'warning',
+    category: 'crawl',
+    message: 'msg',
+    explanation: 'exp',
+    suggestion: 'sug',
+    ...overrides,
+  };
+}
+
+function makeReport(url: string, findings: AuditFinding[], snapshots?: PageSnapshot[]): AuditReport {
+  return {
+    url,
+    timestamp: '2026-01-01T00:00:00.000Z',
+    duration: 10,
+    summary: { errors: 0, warnings: 0, info: 0, passed: 0 },
+    modules: [{ module: 'crawl', findings }],
+    snapshots,
+  };
+}
+
+const PROD = 'https://example.com/';
+const PREVIEW = 'https://my-app-git-feature.vercel.app/';
+
+describe('compareReports', () => {
+  it('matches findings by code and path across origins', () => {
+    const result = compareReports(
+      makeReport(PROD, [makeFinding({ url: 'https://example.com/about' })]),
+      makeReport(PREVIEW, [
+        makeFinding({ url: 'https://my-app-git-feature.vercel.app/about' }),
+        makeFinding({ url: 'https://my-app-git-feature.vercel.app/pricing', severity: 'error' }),
+      ]),
+    );
+
+    expect(result.findings.unchanged).toHaveLength(1);
+    expect(result.findings.newIssues).toHaveLength(1);
+    expect(findingPath(result.findings.newIssues[0], result)).toBe('/pricing');
+    expect(result.findings.resolvedIssues).toHaveLength(0);
+  });
+
+  it('ignores passing and suppressed findings', () => {
+    const result = compareReports(
+      makeReport(PROD, []),
+      makeReport(PREVIEW, [
+        makeFinding({ severity: 'pass' }),
+        makeFinding({ code: 'JSONLD_MISSING', suppressed: { reason: 'Accepted' } }),
+      ]),
+    );
+    expect(result.findings.newIssues).toHaveLength(0);
+  });
+
+  it('reports title, robots and status changes per path', () => {
+    const result = compareReports(
+      makeReport(PROD, [], [
+        { url: 'https://example.com/', status: 200, title: 'Home', robots: 'index' },
+        { url: 'https://example.com/about', status: 200, title: 'About' },
+      ]),
+      makeReport(PREVIEW, [], [
+        { url: 'https://my-app-git-feature.vercel.app/', status: 200, title: 'Home', robots: 'noindex' },
+        { url: 'https://my-app-git-feature.vercel.app/about', status: 404 },
+      ]),
+    );
+
+    expect(result.pages).toEqual([
+      { path: '/', field: 'robots', before: 'index', after: 'noindex' },
+      { path: '/about', field: 'status', before: 200, after: 404 },
+      { path: '/about', field: 'title', before: 'About', after: undefined },
+    ]);
+  });
+
+  it('treats canonicals on either origin as the same path', () => {
+    const result = compareReports(
+      makeReport(PROD, [], [{ url: 'https://example.com/a', status: 200, canonical: 'https://example.com/a' }]),
+      makeReport(PREVIEW, [], [
+        { url: 'https://my-app-git-feature.vercel.app/a', status: 200, canonical: 'https://example.com/a' },
+      ]),
+    );
+    expect(result.pages).toEqual([]);
+  });
+
+  it('skips pages only one side visited', () => {
+    const result = compareReports(
+      makeReport(PROD, [], [{ url: 'https://example.com/old', status: 200 }]),
+      makeReport(PREVIEW, [], [{ url: 'https://my-app-git-feature.vercel.app/new', status: 200 }]),
+    );
+    expect(result.pages).toEqual([]);
+  });
+});
+
+describe('hasRegressions', () => {
+  const base = { base: PROD, target: PREVIEW };
+  const noFindings = { newIssues: [], resolvedIssues: [], unchanged: [] };
+
+  it('flags new errors, and new warnings only in strict mode', () => {
+    const result = { ...base, findings: { ...noFindings, newIssues: [makeFinding()] }, pages: [] };
+    expect(hasRegressions(result, false)).toBe(false);
+    expect(hasRegressions(result, true)).toBe(true);
+    result.findings.newIssues = [makeFinding({ severity: 'error' })];
+    expect(hasRegressions(result, false)).toBe(true);
+  });
+
+  it('flags pages that started failing', () => {
+    const broken = { ...base, findings: noFindings, pages: [{ path: '/a', field: 'status' as const, before: 200, after: 500 }] };
+    const fixed = { ...base, findings: noFindings, pages: [{ path: '/a', field: 'status' as const, before: 404, after: 200 }] };
+    const gone = { ...base, findings: noFindings, pages: [{ path: '/a', field: 'status' as const, before: 200 }] };
+    expect(hasRegressions(broken, false)).toBe(true);
+    expect(hasRegressions(fixed, false)).toBe(false);
+    expect(hasRegressions(gone, false)).toBe(true);
+  });
+});
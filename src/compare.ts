@@ -0,0 +1,102 @@
+import type {
+  AuditFinding,
+  AuditReport,
+  ComparisonResult,
+  PageChange,
+  PageSnapshot,
+} from './types.js';
+import { diffFindings } from './diff.js';
+
+const SNAPSHOT_FIELDS = ['status', 'title', 'canonical', 'robots'] as const;
+
+/**
+ * Reduce a URL on either compared origin to its path, so the same page on
+ * production and on a preview deployment shares a key. URLs on other
+ * origins are kept whole.
+ */
+function toPath(url: string, origins: string[]): string {
+  try {
+    const parsed = new URL(url);
+    return origins.includes(parsed.origin) ? `${parsed.pathname}${parsed.search}` : parsed.href;
+  } catch {
+    return url;
+  }
+}
+
+function issues(report: AuditReport): AuditFinding[] {
+  return report.modules
+    .flatMap((m) => m.findings)
+    .filter((f) => f.severity !== 'pass' && !f.suppressed);
+}
+
+function snapshotsByPath(report: AuditReport, origins: string[]): Map<string, PageSnapshot> {
+  const byPath = new Map<string, PageSnapshot>();
+  for (const snapshot of report.snapshots ?? []) {
+    byPath.set(toPath(snapshot.url, origins), snapshot);
+  }
+  return byPath;
+}
+
+/**
+ * Compare two audits of the same site on different origins (e.g. production
+ * and a preview deployment). Findings are matched by code and path; page
+ * snapshots are compared field by field, with same-site canonicals reduced
+ * to paths so they don't differ just by host.
+ */
+export function compareReports(base: AuditReport, target: AuditReport): ComparisonResult {
+  const origins = [new URL(base.url).origin, new URL(target.url).origin];
+  const pathKey = (f: AuditFinding) => `${f.code}::${f.url ? toPath(f.url, origins) : ''}`;
+
+  const before = snapshotsByPath(base, origins);
+  const after = snapshotsByPath(target, origins);
+  const paths = [...new Set([...before.keys(), ...after.keys()])];
+
+  const pages: PageChange[] = [];
+  for (const path of paths) {
+    const a = before.get(path);
+    const b = after.get(path);
+    // Pages only one side visited (e.g. different sitemaps) have nothing to compare
+    if (!a || !b) continue;
+
+    for (const field of SNAPSHOT_FIELDS) {
+      let valueA = a[field];
+      let valueB = b[field];
+      if (field === 'canonical') {
+        valueA = valueA && toPath(String(valueA), origins);
+        valueB = valueB && toPath(String(valueB), origins);
+      }
+      if (valueA !== valueB) {
+        pages.push({ path, field, before: valueA, after: valueB });
+      }
+    }
+  }
+
+  return {
+    base: base.url,
+    target: target.url,
+    findings: diffFindings(issues(base), issues(target), pathKey),
+    pages,
+  };
+}
+
+/** Path of a finding relative to the compared origins, or "" for site-wide findings. */
+export function findingPath(finding: AuditFinding, result: ComparisonResult): string {
+  if (!finding.url) return '';
+  return toPath(finding.url, [new URL(result.base).origin, new URL(result.target).origin]);
+}
+
+/**
+ * A comparison regresses when the target has new errors (or warnings in
+ * strict mode) or a page that loaded on the base now fails or is missing.
+ */
+export function hasRegressions(result: ComparisonResult, strict: boolean): boolean {
+  const worse = result.findings.newIssues.some(
+    (f) => f.severity === 'error' || (strict && f.severity === 'warning'),
+  );
+  const broken = result.pages.some(
+    (c) => c.field === 'status' && typeof c.before === 'number' && c.before < 400 &&
+      (c.after === undefined || (c.after as number) >= 400),
+  );
+  return worse || broken;
+}
+
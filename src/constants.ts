@@ -1,5 +1,6 @@
 export const DEFAULT_TIMEOUT = 10_000;
 export const MAX_REDIRECTS = 20;
+export const VERSION = '2.4.0'; // x-release-please-version
 export const USER_AGENT = 'vercel-seo-audit/2.4.0'; // x-release-please-version
 export const SITEMAP_SAMPLE_SIZE = 10;
 
@@ -14,9 +15,34 @@ export const USER_AGENT_PRESETS: Record<string, string> = {
 
 export const DEFAULT_CRAWL_LIMIT = 50;
 export const CRAWL_CONCURRENCY = 5;
+export const DEFAULT_CRAWL_DEPTH = 3;
+export const DEFAULT_NEAR_DUPLICATE_THRESHOLD = 0.9;
+// Fingerprints of very short texts are too noisy to compare
+export const NEAR_DUPLICATE_MIN_WORDS = 50;
+// Text blocks on more than this share of crawled pages are boilerplate, e.g. a cookie banner
+export const BOILERPLATE_SHARE = 0.5;
+// Fewer pages than this say too little about what is boilerplate
+export const BOILERPLATE_MIN_PAGES = 5;
+export const EXTERNAL_LINK_CONCURRENCY = 8;
+export const EXTERNAL_HOST_CONCURRENCY = 2;
 
 export const DEFAULT_PATHS = {
   robotsTxt: '/robots.txt',
   sitemapXml: '/sitemap.xml',
   faviconIco: '/favicon.ico',
 } as const;
+
+export const DEFAULT_BASELINE_FILE = '.seoaudit-baseline.json';
+export const BASELINE_PLACEHOLDER_REASON = 'TODO: explain why this finding is accepted';
+
+export const DEFAULT_SITE_CONCURRENCY = 3;
+export const DEFAULT_READY_TIMEOUT = 60_000;
+
+export const DEFAULT_RETRIES = 2;
+export const RETRY_BASE_DELAY = 500;
+export const MAX_RETRY_DELAY = 30_000;
+// Longer Crawl-delays would stall a crawl for hours
+export const MAX_CRAWL_DELAY = 10;
+
+// Google rates TTFB under 800ms as good and over 1800ms as poor
+export const DEFAULT_TTFB_THRESHOLDS = { info: 800, warning: 1800 };
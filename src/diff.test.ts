@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { diffFindings, diffReports, findingKey, parseReport } from './diff.js';
+import type { AuditFinding, AuditReport } from './types.js';
+
+function makeFinding(code: AuditFinding['code'], url?: string): AuditFinding {
+  return {
+    code,
+    severity: 'warning',
+    category: 'metadata',
+    message: 'msg',
+    explanation: 'exp',
+    suggestion: 'sug',
+    url,
+  };
+}
+
+function makeReport(findings: AuditFinding[]): AuditReport {
+  return {
+    url: 'https://example.com/',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    duration: 100,
+    summary: { errors: 0, warnings: findings.length, info: 0, passed: 0 },
+    modules: [{ module: 'metadata', findings }],
+  };
+}
+
+describe('findingKey', () => {
+  it('combines code and URL', () => {
+    expect(findingKey(makeFinding('TITLE_MISSING', 'https://example.com/'))).toBe('TITLE_MISSING::https://example.com/');
+    expect(findingKey(makeFinding('TITLE_MISSING'))).toBe('TITLE_MISSING::');
+  });
+});
+
+describe('diffFindings', () => {
+  it('separates new, resolved and unchanged findings', () => {
+    const previous = [makeFinding('TITLE_MISSING', 'https://example.com/'), makeFinding('CANONICAL_MISSING', 'https://example.com/')];
+    const current = [makeFinding('TITLE_MISSING', 'https://example.com/'), makeFinding('HSTS_MISSING', 'https://example.com/')];
+
+    const diff = diffFindings(previous, current);
+    expect(diff.newIssues.map((f) => f.code)).toEqual(['HSTS_MISSING']);
+    expect(diff.resolvedIssues.map((f) => f.code)).toEqual(['CANONICAL_MISSING']);
+    expect(diff.unchanged.map((f) => f.code)).toEqual(['TITLE_MISSING']);
+  });
+
+  it('treats the same code on a different URL as a new issue', () => {
+    const diff = diffFindings(
+      [makeFinding('CRAWL_PAGE_ERROR', 'https://example.com/a')],
+      [makeFinding('CRAWL_PAGE_ERROR', 'https://example.com/b')],
+    );
+    expect(diff.newIssues).toHaveLength(1);
+    expect(diff.resolvedIssues).toHaveLength(1);
+  });
+
+  it('accepts a custom key function', () => {
+    const byCode = (f: AuditFinding) => f.code;
+    const diff = diffFindings(
+      [makeFinding('CRAWL_PAGE_ERROR', 'https://example.com/a')],
+      [makeFinding('CRAWL_PAGE_ERROR', 'https://example.com/b')],
+      byCode,
+    );
+    expect(diff.unchanged).toHaveLength(1);
+  });
+});
+
+describe('diffReports', () => {
+  it('compares findings across all modules', () => {
+    const diff = diffReports(makeReport([]), makeReport([makeFinding('TITLE_MISSING')]));
+    expect(diff.newIssues).toHaveLength(1);
+    expect(diff.resolvedIssues).toHaveLength(0);
+  });
+});
+
+describe('parseReport', () => {
+  it('parses a valid report', () => {
+    const report = makeReport([makeFinding('TITLE_MISSING')]);
+    expect(parseReport(JSON.stringify(report))).toEqual(report);
+  });
+
+  it('throws when modules are missing', () => {
+    expect(() => parseReport('{"url":"https://example.com"}')).toThrow('Invalid report: missing modules array');
+    expect(() => parseReport('null')).toThrow('Invalid report: missing modules array');
+  });
+
+  it('throws on invalid JSON', () => {
+    expect(() => parseReport('{')).toThrow();
+  });
+});
@@ -0,0 +1,35 @@
+import type { AuditFinding, AuditReport, DiffResult } from './types.js';
+
+export function findingKey(finding: AuditFinding): string {
+  return `${finding.code}::${finding.url ?? ''}`;
+}
+
+export function diffFindings(
+  previous: AuditFinding[],
+  current: AuditFinding[],
+  toKey: (finding: AuditFinding) => string = findingKey,
+): DiffResult {
+  const previousKeys = new Set(previous.map(toKey));
+  const currentKeys = new Set(current.map(toKey));
+
+  return {
+    newIssues: current.filter((f) => !previousKeys.has(toKey(f))),
+    resolvedIssues: previous.filter((f) => !currentKeys.has(toKey(f))),
+    unchanged: current.filter((f) => previousKeys.has(toKey(f))),
+  };
+}
+
+export function diffReports(previous: AuditReport, current: AuditReport): DiffResult {
+  return diffFindings(
+    previous.modules.flatMap((m) => m.findings),
+    current.modules.flatMap((m) => m.findings),
+  );
+}
+
+export function parseReport(raw: string): AuditReport {
+  const report = JSON.parse(raw) as AuditReport;
+  if (typeof report !== 'object' || report === null || !Array.isArray(report.modules)) {
+    throw new Error('Invalid report: missing modules array');
+  }
+  return report;
+}
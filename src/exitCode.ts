@@ -1,8 +1,22 @@
+export interface ExitCodeOptions {
+  /** Number of audit modules that threw during the run */
+  failures?: number;
+  /** Treat module failures as a crash (exit code 2) */
+  failOnModuleError?: boolean;
+  /** Overall score of the run */
+  score?: number;
+  /** Fail when the overall score is below this threshold */
+  minScore?: number;
+}
+
 export function getExitCode(
   summary: { errors: number; warnings: number },
   strict: boolean,
+  options: ExitCodeOptions = {},
 ): number {
+  if (options.failOnModuleError && (options.failures ?? 0) > 0) return 2;
   if (summary.errors > 0) return 1;
   if (strict && summary.warnings > 0) return 1;
+  if (options.minScore !== undefined && options.score !== undefined && options.score < options.minScore) return 1;
   return 0;
 }
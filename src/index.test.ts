@@ -0,0 +1,20 @@
+import { describe, it, expect, vi } from 'vitest';
+
+describe('library entry', () => {
+  it('exports the public API without side effects on import', async () => {
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+    const lib = await import('./index.js');
+
+    expect(exitSpy).not.toHaveBeenCalled();
+    expect(typeof lib.runAudit).toBe('function');
+    expect(typeof lib.diffReports).toBe('function');
+    expect(typeof lib.loadConfig).toBe('function');
+    expect(typeof lib.validateConfig).toBe('function');
+    expect(typeof lib.formatJson).toBe('function');
+    expect(typeof lib.formatMarkdown).toBe('function');
+    expect(typeof lib.formatHtml).toBe('function');
+    expect(typeof lib.formatDiff).toBe('function');
+
+    exitSpy.mockRestore();
+  });
+});
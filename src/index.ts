@@ -0,0 +1,30 @@
+export { runAudit } from './runner.js';
+export { runSites } from './sites.js';
+export type { SiteTarget } from './sites.js';
+export { diffReports, diffFindings, findingKey, parseReport } from './diff.js';
+export { compareReports, hasRegressions } from './compare.js';
+export { parseBaseline, applyBaseline, createBaseline } from './baseline.js';
+export { computeScore, SEVERITY_PENALTIES } from './score.js';
+export { getExitCode } from './exitCode.js';
+export type { ExitCodeOptions } from './exitCode.js';
+export { loadConfig, validateConfig } from './utils/config.js';
+export { loadPlugins } from './utils/plugins.js';
+export { createHar, parseHar } from './utils/har.js';
+export { startStaticServer } from './utils/staticServer.js';
+export { startServer } from './utils/startServer.js';
+export type { LocalServer, StartServerOptions } from './utils/startServer.js';
+export type { StaticServer, StaticServerOptions } from './utils/staticServer.js';
+export {
+  formatReport,
+  formatJson,
+  formatMarkdown,
+  formatHtml,
+  formatDiff,
+  formatDiffJson,
+  formatSitesReport,
+  formatSitesMarkdown,
+  formatSitesHtml,
+  formatComparison,
+  formatComparisonJson,
+} from './utils/output.js';
+export type * from './types.js';
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { resolveDependencies, runModuleGraph, selectModules } from './moduleGraph.js';
+import type { AuditContext, AuditModule } from './types.js';
+
+function makeCtx(): AuditContext {
+  return {
+    url: 'https://example.com',
+    normalizedUrl: 'https://example.com/',
+    fetchOptions: {},
+    verbose: false,
+  };
+}
+
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe('resolveDependencies', () => {
+  it('links consumers to every provider of the fields they read', () => {
+    const a: AuditModule = { name: 'a', provides: ['html'], run: async () => [] };
+    const b: AuditModule = { name: 'b', provides: ['headers'], run: async () => [] };
+    const c: AuditModule = { name: 'c', consumes: ['html', 'headers'], run: async () => [] };
+
+    const deps = resolveDependencies([a, b, c]);
+    expect(deps.get(c)).toEqual([a, b]);
+    expect(deps.get(a)).toEqual([]);
+  });
+
+  it('ignores fields that no module provides', () => {
+    const a: AuditModule = { name: 'a', consumes: ['sitemapUrls'], run: async () => [] };
+    expect(resolveDependencies([a]).get(a)).toEqual([]);
+  });
+
+  it('throws on duplicate module names', () => {
+    const a: AuditModule = { name: 'a', run: async () => [] };
+    expect(() => resolveDependencies([a, { ...a }])).toThrow('Duplicate audit module name "a"');
+  });
+
+  it('throws on dependency cycles', () => {
+    const a: AuditModule = { name: 'a', provides: ['html'], consumes: ['headers'], run: async () => [] };
+    const b: AuditModule = { name: 'b', provides: ['headers'], consumes: ['html'], run: async () => [] };
+    expect(() => resolveDependencies([a, b])).toThrow('Audit module dependency cycle: a -> b -> a');
+  });
+});
+
+describe('runModuleGraph', () => {
+  it('runs independent modules in parallel', async () => {
+    const running: string[] = [];
+    let maxParallel = 0;
+    const make = (name: string): AuditModule => ({
+      name,
+      run: async () => {
+        running.push(name);
+        maxParallel = Math.max(maxParallel, running.length);
+        await delay(5);
+        running.splice(running.indexOf(name), 1);
+        return [];
+      },
+    });
+
+    await runModuleGraph([make('a'), make('b'), make('c')], makeCtx());
+    expect(maxParallel).toBe(3);
+  });
+
+  it('waits for providers before running consumers', async () => {
+    const provider: AuditModule = {
+      name: 'provider',
+      provides: ['html'],
+      run: async (ctx) => {
+        await delay(5);
+        ctx.html = '<html></html>';
+        return [];
+      },
+    };
+    let seen: string | undefined;
+    const consumer: AuditModule = {
+      name: 'consumer',
+      consumes: ['html'],
+      run: async (ctx) => {
+        seen = ctx.html;
+        return [];
+      },
+    };
+
+    await runModuleGraph([consumer, provider], makeCtx());
+    expect(seen).toBe('<html></html>');
+  });
+
+  it('returns results in module order and reports failed modules separately', async () => {
+    const { results, failures } = await runModuleGraph(
+      [
+        { name: 'slow', run: async () => { await delay(5); return []; } },
+        { name: 'broken', run: async () => { throw new Error('boom'); } },
+        { name: 'fast', run: async () => [] },
+      ],
+      makeCtx(),
+    );
+    expect(results.map((r) => r.module)).toEqual(['slow', 'fast']);
+    expect(failures).toEqual([{ module: 'broken', message: 'boom', stack: undefined }]);
+  });
+
+  it('records non-Error rejections and stacks in verbose mode', async () => {
+    const ctx = { ...makeCtx(), verbose: true };
+    const { failures } = await runModuleGraph(
+      [
+        { name: 'thrower', run: async () => { throw new Error('boom'); } },
+        { name: 'stringy', run: () => Promise.reject('nope') },
+      ],
+      ctx,
+    );
+    expect(failures[0].stack).toContain('Error: boom');
+    expect(failures[1]).toEqual({ module: 'stringy', message: 'nope', stack: undefined });
+  });
+});
+
+describe('selectModules', () => {
+  const robots: AuditModule = { name: 'robots', categories: ['robots'], provides: ['robotsTxt'], run: async () => [] };
+  const sitemap: AuditModule = { name: 'sitemap', categories: ['sitemap'], consumes: ['robotsTxt'], provides: ['sitemapUrls'], run: async () => [] };
+  const metadata: AuditModule = { name: 'metadata', categories: ['indexing', 'metadata'], run: async () => [] };
+  const crawl: AuditModule = { name: 'crawl', categories: ['crawl'], consumes: ['sitemapUrls'], run: async () => [] };
+  const all = [robots, sitemap, metadata, crawl];
+  const names = (mods: AuditModule[]) => mods.map((m) => m.name);
+
+  it('keeps every module without a selection', () => {
+    expect(names(selectModules(all, {}))).toEqual(['robots', 'sitemap', 'metadata', 'crawl']);
+  });
+
+  it('selects by module name or category', () => {
+    expect(names(selectModules(all, { only: ['metadata'] }))).toEqual(['metadata']);
+    expect(names(selectModules(all, { only: ['indexing'] }))).toEqual(['metadata']);
+  });
+
+  it('pulls in providers that selected modules depend on', () => {
+    expect(names(selectModules(all, { only: ['crawl'] }))).toEqual(['robots', 'sitemap', 'crawl']);
+  });
+
+  it('does not pull in explicitly skipped providers', () => {
+    expect(names(selectModules(all, { only: ['crawl'], skip: ['robots'] }))).toEqual(['sitemap', 'crawl']);
+  });
+
+  it('leaves out skipped modules', () => {
+    expect(names(selectModules(all, { skip: ['metadata', 'crawl'] }))).toEqual(['robots', 'sitemap']);
+  });
+
+  it('throws on unknown names', () => {
+    expect(() => selectModules(all, { only: ['sitemaps'] })).toThrow('Unknown module or category "sitemaps"');
+  });
+});
@@ -0,0 +1,133 @@
+import type { AuditContext, AuditModule, AuditModuleResult, ModuleFailure } from './types.js';
+
+/**
+ * Map each module to the modules it waits on: every other module that
+ * provides one of the context fields it consumes. A field nobody provides
+ * is treated as ready from the start.
+ */
+export function resolveDependencies(modules: AuditModule[]): Map<AuditModule, AuditModule[]> {
+  const names = new Set<string>();
+  for (const mod of modules) {
+    if (names.has(mod.name)) {
+      throw new Error(`Duplicate audit module name "${mod.name}"`);
+    }
+    names.add(mod.name);
+  }
+
+  const deps = new Map<AuditModule, AuditModule[]>();
+  for (const mod of modules) {
+    const consumes = new Set(mod.consumes ?? []);
+    deps.set(
+      mod,
+      modules.filter((other) => other !== mod && (other.provides ?? []).some((key) => consumes.has(key))),
+    );
+  }
+
+  // Reject cycles up front; otherwise the run would never settle
+  const state = new Map<AuditModule, 'visiting' | 'done'>();
+  const visit = (mod: AuditModule, path: string[]): void => {
+    if (state.get(mod) === 'done') return;
+    if (state.get(mod) === 'visiting') {
+      const cycle = [...path.slice(path.indexOf(mod.name)), mod.name];
+      throw new Error(`Audit module dependency cycle: ${cycle.join(' -> ')}`);
+    }
+    state.set(mod, 'visiting');
+    for (const dep of deps.get(mod)!) {
+      visit(dep, [...path, mod.name]);
+    }
+    state.set(mod, 'done');
+  };
+  for (const mod of modules) visit(mod, []);
+
+  return deps;
+}
+
+/** Whether an `only`/`skip` term names the module or one of its categories */
+export function matches(mod: AuditModule, term: string): boolean {
+  return mod.name === term || (mod.categories ?? []).includes(term);
+}
+
+/**
+ * Apply `only`/`skip` selections, given as module names or finding categories.
+ * Modules that provide context for a selected module are kept as well unless
+ * they are explicitly skipped, so `--only crawl` still gets sitemap URLs.
+ */
+export function selectModules(
+  modules: AuditModule[],
+  selection: { only?: string[]; skip?: string[] },
+): AuditModule[] {
+  const only = selection.only ?? [];
+  const skip = selection.skip ?? [];
+
+  for (const term of [...only, ...skip]) {
+    if (!modules.some((mod) => matches(mod, term))) {
+      throw new Error(`Unknown module or category "${term}"`);
+    }
+  }
+
+  const isSkipped = (mod: AuditModule) => skip.some((term) => matches(mod, term));
+  const selected = new Set(
+    modules.filter((mod) => (only.length === 0 || only.some((term) => matches(mod, term))) && !isSkipped(mod)),
+  );
+
+  const deps = resolveDependencies(modules);
+  const pending = [...selected];
+  while (pending.length > 0) {
+    for (const dep of deps.get(pending.pop()!)!) {
+      if (!selected.has(dep) && !isSkipped(dep)) {
+        selected.add(dep);
+        pending.push(dep);
+      }
+    }
+  }
+
+  return modules.filter((mod) => selected.has(mod));
+}
+
+/**
+ * Run modules as a dependency graph: each starts as soon as the providers of
+ * everything it consumes have settled, so independent modules run in parallel.
+ * Results and failures keep the order the modules were given in.
+ */
+export async function runModuleGraph(
+  modules: AuditModule[],
+  ctx: AuditContext,
+): Promise<{ results: AuditModuleResult[]; failures: ModuleFailure[] }> {
+  const deps = resolveDependencies(modules);
+  const running = new Map<AuditModule, Promise<PromiseSettledResult<AuditModuleResult>>>();
+
+  const start = (mod: AuditModule): Promise<PromiseSettledResult<AuditModuleResult>> => {
+    let promise = running.get(mod);
+    if (!promise) {
+      promise = Promise.all(deps.get(mod)!.map(start)).then(async () => {
+        try {
+          const findings = await mod.run(ctx);
+          return { status: 'fulfilled', value: { module: mod.name, findings } } as const;
+        } catch (reason) {
+          return { status: 'rejected', reason } as const;
+        }
+      });
+      running.set(mod, promise);
+    }
+    return promise;
+  };
+
+  const settled = await Promise.all(modules.map(start));
+
+  const results: AuditModuleResult[] = [];
+  const failures: ModuleFailure[] = [];
+  settled.forEach((r, i) => {
+    if (r.status === 'fulfilled') {
+      results.push(r.value);
+      return;
+    }
+    const err = r.reason;
+    failures.push({
+      module: modules[i].name,
+      message: err instanceof Error ? err.message : String(err),
+      stack: ctx.verbose && err instanceof Error ? err.stack : undefined,
+    });
+  });
+
+  return { results, failures };
+}
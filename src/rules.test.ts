@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import type { AuditFinding, AuditModuleResult } from './types.js';
+import { applyRules } from './rules.js';
+
+function makeFinding(overrides: Partial<AuditFinding> = {}): AuditFinding {
+  return {
+    code: 'JSONLD_MISSING',
+    severity: 'warning',
+    category: 'structured-data',
+    message: 'msg',
+    explanation: 'exp',
+    suggestion: 'sug',
+    ...overrides,
+  };
+}
+
+function makeResults(findings: AuditFinding[]): AuditModuleResult[] {
+  return [{ module: 'structuredData', findings }];
+}
+
+describe('applyRules', () => {
+  it('returns results untouched without rules', () => {
+    const results = makeResults([makeFinding()]);
+    expect(applyRules(results, undefined)).toBe(results);
+    expect(applyRules(results, {})).toBe(results);
+  });
+
+  it('overrides severity by code', () => {
+    const [result] = applyRules(makeResults([makeFinding()]), { JSONLD_MISSING: 'error' });
+    expect(result.findings[0].severity).toBe('error');
+  });
+
+  it('removes findings set to off', () => {
+    const [result] = applyRules(
+      makeResults([makeFinding(), makeFinding({ code: 'JSONLD_INVALID_JSON', severity: 'error' })]),
+      { JSONLD_MISSING: 'off' },
+    );
+    expect(result.findings.map((f) => f.code)).toEqual(['JSONLD_INVALID_JSON']);
+  });
+
+  it('does not change the severity of passing checks', () => {
+    const [result] = applyRules(
+      makeResults([makeFinding({ severity: 'pass' })]),
+      { JSONLD_MISSING: 'error' },
+    );
+    expect(result.findings[0].severity).toBe('pass');
+  });
+
+  it('limits overrides to matching URLs', () => {
+    const rules = { JSONLD_MISSING: { severity: 'off' as const, urls: ['/docs/**'] } };
+    const [result] = applyRules(
+      makeResults([
+        makeFinding({ url: 'https://example.com/docs/intro' }),
+        makeFinding({ url: 'https://example.com/blog/post' }),
+        makeFinding(),
+      ]),
+      rules,
+    );
+    expect(result.findings.map((f) => f.url)).toEqual(['https://example.com/blog/post', undefined]);
+  });
+
+  it('prefers URL-scoped overrides over unscoped ones', () => {
+    const rules = {
+      JSONLD_MISSING: [{ severity: 'error' as const }, { severity: 'info' as const, urls: ['/legal/*'] }],
+    };
+    const [result] = applyRules(
+      makeResults([
+        makeFinding({ url: 'https://example.com/legal/terms' }),
+        makeFinding({ url: 'https://example.com/pricing' }),
+      ]),
+      rules,
+    );
+    expect(result.findings.map((f) => f.severity)).toEqual(['info', 'error']);
+  });
+});
@@ -0,0 +1,54 @@
+import type {
+  AuditFinding,
+  AuditModuleResult,
+  RuleConfig,
+  RuleOverride,
+  RuleSeverity,
+} from './types.js';
+import { matchUrlPattern } from './utils/glob.js';
+
+function toOverrides(rule: RuleConfig): RuleOverride[] {
+  if (typeof rule === 'string') return [{ severity: rule }];
+  return Array.isArray(rule) ? rule : [rule];
+}
+
+/**
+ * Pick the override for a finding. URL-scoped overrides win over unscoped
+ * ones; within each group the first match in config order applies.
+ */
+function resolveSeverity(finding: AuditFinding, overrides: RuleOverride[]): RuleSeverity | undefined {
+  const url = finding.url;
+  const scoped = url
+    ? overrides.find((o) => o.urls?.some((pattern) => matchUrlPattern(pattern, url)))
+    : undefined;
+  return (scoped ?? overrides.find((o) => !o.urls))?.severity;
+}
+
+/**
+ * Apply config `rules` to module results: override severities and drop
+ * findings whose rule is "off". Passing checks keep their severity.
+ */
+export function applyRules(
+  results: AuditModuleResult[],
+  rules: Record<string, RuleConfig> | undefined,
+): AuditModuleResult[] {
+  if (!rules || Object.keys(rules).length === 0) return results;
+
+  const overridesByCode = new Map(
+    Object.entries(rules).map(([code, rule]) => [code, toOverrides(rule)]),
+  );
+
+  return results.map((result) => {
+    const findings: AuditFinding[] = [];
+    for (const finding of result.findings) {
+      const overrides = overridesByCode.get(finding.code);
+      const severity = overrides && resolveSeverity(finding, overrides);
+      if (!severity) {
+        findings.push(finding);
+      } else if (severity !== 'off') {
+        findings.push(finding.severity === 'pass' ? finding : { ...finding, severity });
+      }
+    }
+    return { ...result, findings };
+  });
+}
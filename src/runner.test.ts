@@ -1,5 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { runAudit } from './runner.js';
+import { loadPlugins } from './utils/plugins.js';
 
 vi.mock('./audit/index.js', () => ({
   auditRedirects: vi.fn(),
@@ -10,10 +14,15 @@ vi.mock('./audit/index.js', () => ({
   auditNextjs: vi.fn(),
   auditStructuredData: vi.fn(),
   auditCrawl: vi.fn(),
+  auditCoverage: vi.fn(),
+  auditDuplicates: vi.fn(),
+  auditLinks: vi.fn(),
+  auditExternalLinks: vi.fn(),
   auditI18n: vi.fn(),
   auditImages: vi.fn(),
   auditSecurity: vi.fn(),
   auditPerformance: vi.fn(),
+  loadHomepage: vi.fn(),
 }));
 
 import {
@@ -25,10 +34,15 @@ import {
   auditNextjs,
   auditStructuredData,
   auditCrawl,
+  auditCoverage,
+  auditDuplicates,
+  auditLinks,
+  auditExternalLinks,
   auditI18n,
   auditImages,
   auditSecurity,
   auditPerformance,
+  loadHomepage,
 } from './audit/index.js';
 
 const mockRedirects = vi.mocked(auditRedirects);
@@ -39,10 +53,15 @@ const mockFavicon = vi.mocked(auditFavicon);
 const mockNextjs = vi.mocked(auditNextjs);
 const mockStructuredData = vi.mocked(auditStructuredData);
 const mockCrawl = vi.mocked(auditCrawl);
+const mockCoverage = vi.mocked(auditCoverage);
+const mockDuplicates = vi.mocked(auditDuplicates);
+const mockLinks = vi.mocked(auditLinks);
+const mockExternalLinks = vi.mocked(auditExternalLinks);
 const mockI18n = vi.mocked(auditI18n);
 const mockImages = vi.mocked(auditImages);
 const mockSecurity = vi.mocked(auditSecurity);
 const mockPerformance = vi.mocked(auditPerformance);
+const mockHomepage = vi.mocked(loadHomepage);
 
 beforeEach(() => {
   vi.resetAllMocks();
@@ -56,10 +75,15 @@ beforeEach(() => {
   mockNextjs.mockResolvedValue([]);
   mockStructuredData.mockResolvedValue([]);
   mockCrawl.mockResolvedValue([]);
+  mockCoverage.mockResolvedValue([]);
+  mockDuplicates.mockResolvedValue([]);
+  mockLinks.mockResolvedValue([]);
+  mockExternalLinks.mockResolvedValue([]);
   mockI18n.mockResolvedValue([]);
   mockImages.mockResolvedValue([]);
   mockSecurity.mockResolvedValue([]);
   mockPerformance.mockResolvedValue([]);
+  mockHomepage.mockResolvedValue([]);
 });
 
 describe('runAudit', () => {
@@ -71,16 +95,17 @@ describe('runAudit', () => {
     expect(report.duration).toBeGreaterThanOrEqual(0);
     expect(report.summary).toEqual({ errors: 0, warnings: 0, info: 0, passed: 0 });
     expect(report.modules).toBeInstanceOf(Array);
+    expect(report.failures).toEqual([]);
   });
 
-  it('runs phase 1 modules (robots, redirects)', async () => {
+  it('runs robots and redirects modules', async () => {
     await runAudit('https://example.com');
 
     expect(mockRobots).toHaveBeenCalledTimes(1);
     expect(mockRedirects).toHaveBeenCalledTimes(1);
   });
 
-  it('runs phase 2 modules (sitemap, metadata, favicon, nextjs, structuredData, i18n, images, security, performance)', async () => {
+  it('runs sitemap, metadata, favicon, nextjs, structuredData, i18n, images, security and performance modules', async () => {
     await runAudit('https://example.com');
 
     expect(mockSitemap).toHaveBeenCalledTimes(1);
@@ -104,6 +129,53 @@ describe('runAudit', () => {
     expect(mockCrawl).toHaveBeenCalledTimes(1);
   });
 
+  it('passes the crawl depth and lists crawled pages without their links', async () => {
+    mockCrawl.mockImplementation(async (ctx) => {
+      ctx.crawledPages = [
+        { url: 'https://example.com/', source: 'link', depth: 0, status: 200, links: [{ url: 'https://example.com/a', text: 'A' }] },
+        { url: 'https://example.com/a', source: 'both', depth: 1, status: 200, links: [] },
+      ];
+      return [];
+    });
+
+    const report = await runAudit('https://example.com', { crawl: 10, crawlDepth: 1 });
+    expect(mockCrawl.mock.calls[0][0].crawlDepth).toBe(1);
+    expect(report.crawledPages).toEqual([
+      { url: 'https://example.com/', source: 'link', depth: 0, status: 200 },
+      { url: 'https://example.com/a', source: 'both', depth: 1, status: 200 },
+    ]);
+  });
+
+  it('adds sitemap coverage to the summary after a crawl', async () => {
+    const coverage = { sitemapUrls: 2, linkedPages: 1, orphans: 1, notInSitemap: 0, percent: 50 };
+    mockCoverage.mockImplementation(async (ctx) => {
+      ctx.coverage = coverage;
+      return [];
+    });
+
+    expect((await runAudit('https://example.com')).summary.coverage).toBeUndefined();
+    const report = await runAudit('https://example.com', { crawl: 10 });
+    expect(mockCoverage).toHaveBeenCalledTimes(1);
+    expect(report.summary.coverage).toEqual(coverage);
+  });
+
+  it('looks for duplicate titles only after a crawl', async () => {
+    await runAudit('https://example.com');
+    expect(mockDuplicates).not.toHaveBeenCalled();
+
+    await runAudit('https://example.com', { crawl: 10 });
+    expect(mockDuplicates).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks external links only when asked to', async () => {
+    await runAudit('https://example.com');
+    expect(mockExternalLinks).not.toHaveBeenCalled();
+
+    await runAudit('https://example.com', { checkExternal: true, externalLinks: { deny: ['linkedin.com'] } });
+    expect(mockExternalLinks).toHaveBeenCalledTimes(1);
+    expect(mockExternalLinks.mock.calls[0][0].externalLinks).toEqual({ deny: ['linkedin.com'] });
+  });
+
   it('computes summary counts correctly', async () => {
     mockRobots.mockResolvedValue([
       {
@@ -153,7 +225,7 @@ describe('runAudit', () => {
     });
   });
 
-  it('handles module failures gracefully via Promise.allSettled', async () => {
+  it('handles module failures gracefully', async () => {
     mockRedirects.mockRejectedValue(new Error('Unexpected error'));
     mockRobots.mockResolvedValue([
       {
@@ -173,6 +245,20 @@ describe('runAudit', () => {
     expect(moduleNames).not.toContain('redirects');
   });
 
+  it('records failed modules in the report', async () => {
+    mockI18n.mockRejectedValue(new Error('cheerio exploded'));
+
+    const report = await runAudit('https://example.com');
+    expect(report.failures).toEqual([{ module: 'i18n', message: 'cheerio exploded', stack: undefined }]);
+  });
+
+  it('includes the stack of failed modules in verbose mode', async () => {
+    mockI18n.mockRejectedValue(new Error('cheerio exploded'));
+
+    const report = await runAudit('https://example.com', { verbose: true });
+    expect(report.failures?.[0].stack).toContain('cheerio exploded');
+  });
+
   it('normalizes the input URL', async () => {
     const report = await runAudit('example.com');
     expect(report.url).toBe('https://example.com/');
@@ -210,4 +296,278 @@ describe('runAudit', () => {
     expect(names).toContain('security');
     expect(names).toContain('performance');
   });
+
+  it('runs plugin modules once the context they consume is ready', async () => {
+    mockHomepage.mockImplementation(async (ctx) => {
+      await new Promise((r) => setTimeout(r, 10));
+      ctx.html = '<html></html>';
+      return [];
+    });
+    const pluginRun = vi.fn(async (ctx: { html?: string }) => [
+      {
+        code: 'ACME_FOOTER_MISSING',
+        severity: 'error' as const,
+        category: 'acme',
+        message: ctx.html ? 'saw html' : 'no html',
+        explanation: 'exp',
+        suggestion: 'sug',
+      },
+    ]);
+
+    const report = await runAudit('https://example.com', {
+      plugins: [{ name: 'acme-footer', consumes: ['html'], run: pluginRun }],
+    });
+
+    expect(pluginRun).toHaveBeenCalledTimes(1);
+    const pluginResult = report.modules.find((m) => m.module === 'acme-footer');
+    expect(pluginResult?.findings[0].message).toBe('saw html');
+    expect(report.summary.errors).toBe(1);
+  });
+
+  it('schedules and selects modules loaded from a plugin file', async () => {
+    mockHomepage.mockImplementation(async (ctx) => {
+      await new Promise((r) => setTimeout(r, 10));
+      ctx.html = '<html></html>';
+      return [];
+    });
+    const dir = mkdtempSync(join(tmpdir(), 'seo-audit-runner-'));
+    writeFileSync(join(dir, 'acme.mjs'), `
+      const finding = (message) => ({ code: 'ACME', severity: 'warning', category: 'acme', message, explanation: 'e', suggestion: 's' });
+      export default {
+        name: 'acme',
+        modules: [
+          { name: 'acme-footer', categories: ['acme'], consumes: ['html'], run: async (ctx) => [finding(ctx.html ? 'saw html' : 'no html')] },
+          { name: 'acme-crawl', categories: ['acme'], enabled: (ctx) => ctx.crawlLimit !== undefined, run: async () => [finding('crawled')] },
+        ],
+      };
+    `);
+
+    try {
+      const plugins = await loadPlugins(['./acme.mjs'], dir);
+      const report = await runAudit('https://example.com', { plugins, only: ['acme'] });
+      const ran = report.modules.filter((m) => m.module.startsWith('acme'));
+      expect(ran.map((m) => [m.module, m.findings[0].message])).toEqual([['acme-footer', 'saw html']]);
+      expect(mockMetadata).not.toHaveBeenCalled();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('starts consumers only after their providers have finished', async () => {
+    const order: string[] = [];
+    mockRobots.mockImplementation(async (ctx) => {
+      await new Promise((r) => setTimeout(r, 10));
+      ctx.robotsTxt = 'User-agent: *';
+      order.push('robots');
+      return [];
+    });
+    mockSitemap.mockImplementation(async (ctx) => {
+      order.push(`sitemap:${ctx.robotsTxt ?? 'none'}`);
+      ctx.sitemapUrls = ['https://example.com/a'];
+      return [];
+    });
+    mockCrawl.mockImplementation(async (ctx) => {
+      order.push(`crawl:${ctx.sitemapUrls?.length ?? 0}`);
+      return [];
+    });
+
+    await runAudit('https://example.com', { crawl: 5 });
+    expect(order).toEqual(['robots', 'sitemap:User-agent: *', 'crawl:1']);
+  });
+
+  it('runs consumers even when a provider fails', async () => {
+    mockHomepage.mockRejectedValue(new Error('boom'));
+
+    const report = await runAudit('https://example.com');
+    expect(mockMetadata).toHaveBeenCalledTimes(1);
+    expect(report.modules.map((m) => m.module)).toContain('metadata');
+  });
+
+  it('rejects plugin modules whose name clashes with a built-in module', async () => {
+    await expect(
+      runAudit('https://example.com', {
+        plugins: [{ name: 'metadata', run: async () => [] }],
+      }),
+    ).rejects.toThrow('Plugin module name "metadata" conflicts with an existing module');
+  });
+
+  it('shares one HTTP session across modules and reports request counts', async () => {
+    const report = await runAudit('https://example.com');
+
+    const robotsCtx = mockRobots.mock.calls[0][0];
+    const metadataCtx = mockMetadata.mock.calls[0][0];
+    expect(robotsCtx.fetchOptions.session).toBeDefined();
+    expect(metadataCtx.fetchOptions.session).toBe(robotsCtx.fetchOptions.session);
+    expect(report.http).toEqual({ requests: 0, cached: 0 });
+  });
+
+  it('retries transient failures by default and reports requests that needed retries', async () => {
+    mockRobots.mockImplementation(async (ctx) => {
+      ctx.fetchOptions.session!.flaky!.push({
+        url: 'https://example.com/robots.txt',
+        method: 'GET',
+        attempts: 2,
+        failures: [503],
+      });
+      return [];
+    });
+
+    const report = await runAudit('https://example.com');
+    expect(mockRobots.mock.calls[0][0].fetchOptions.retries).toBe(2);
+    const http = report.modules.find((m) => m.module === 'http');
+    expect(http?.findings).toEqual([
+      expect.objectContaining({
+        code: 'FLAKY_RESPONSE',
+        severity: 'warning',
+        category: 'network',
+        message: 'https://example.com/robots.txt only responded after 2 attempts',
+        url: 'https://example.com/robots.txt',
+      }),
+    ]);
+    expect(report.summary.warnings).toBe(1);
+  });
+
+  it('reports flaky third-party hosts as info', async () => {
+    mockRobots.mockImplementation(async (ctx) => {
+      const flaky = ctx.fetchOptions.session!.flaky!;
+      flaky.push({ url: 'https://www.example.com/a', method: 'GET', attempts: 2, failures: [503] });
+      flaky.push({ url: 'https://cdn.images.test/hero.png', method: 'HEAD', attempts: 3, failures: [503, 'fetch failed'] });
+      return [];
+    });
+
+    const report = await runAudit('https://example.com');
+    const http = report.modules.find((m) => m.module === 'http');
+    expect(http?.findings.map((f) => [f.url, f.severity])).toEqual([
+      ['https://www.example.com/a', 'warning'],
+      ['https://cdn.images.test/hero.png', 'info'],
+    ]);
+    expect(report.summary.warnings).toBe(1);
+  });
+
+  it('attaches request timings and TTFB thresholds', async () => {
+    const timing = { url: 'https://example.com/', method: 'GET', status: 200, ttfb: 120, total: 180, bytes: 5120 };
+    mockRobots.mockImplementation(async (ctx) => {
+      ctx.fetchOptions.session!.timings!.push(timing);
+      return [];
+    });
+
+    const report = await runAudit('https://example.com', { ttfbThresholds: { warning: 1000 } });
+    expect(mockRobots.mock.calls[0][0].ttfbThresholds).toEqual({ info: 800, warning: 1000 });
+    expect(report.timings).toEqual([timing]);
+  });
+
+  it('leaves timings out of the report when nothing was fetched', async () => {
+    const report = await runAudit('https://example.com');
+    expect(report.timings).toBeUndefined();
+  });
+
+  it('runs only the selected modules and records the rest as skipped', async () => {
+    const report = await runAudit('https://example.com', { only: ['robots', 'sitemap'] });
+
+    expect(mockRobots).toHaveBeenCalledTimes(1);
+    expect(mockSitemap).toHaveBeenCalledTimes(1);
+    expect(mockImages).not.toHaveBeenCalled();
+    expect(mockMetadata).not.toHaveBeenCalled();
+    expect(report.modules.map((m) => m.module)).toEqual(['robots', 'sitemap']);
+    expect(report.skipped).toContain('images');
+    expect(report.skipped).toContain('homepage');
+    expect(report.skipped).not.toContain('crawl');
+  });
+
+  it('skips modules by category', async () => {
+    const report = await runAudit('https://example.com', { skip: ['images', 'security'] });
+
+    expect(mockImages).not.toHaveBeenCalled();
+    expect(mockSecurity).not.toHaveBeenCalled();
+    expect(report.skipped).toEqual(['images', 'security']);
+  });
+
+  it('rejects unknown module selections', async () => {
+    await expect(runAudit('https://example.com', { only: ['sitemaps'] })).rejects.toThrow('Unknown module or category "sitemaps"');
+  });
+
+  it('rejects selecting only modules that are turned off', async () => {
+    await expect(runAudit('https://example.com', { only: ['metadata', 'crawl'] })).rejects.toThrow(
+      '"crawl" only selects modules that are turned off for this run: crawl, coverage, duplicates',
+    );
+    const report = await runAudit('https://example.com', { only: ['crawl'], crawl: 10 });
+    expect(report.modules.map((m) => m.module)).toContain('crawl');
+  });
+
+  it('applies rule overrides before computing the summary', async () => {
+    mockStructuredData.mockResolvedValue([
+      {
+        code: 'JSONLD_MISSING',
+        severity: 'warning',
+        category: 'structured-data',
+        message: 'msg',
+        explanation: 'exp',
+        suggestion: 'sug',
+      },
+    ]);
+    mockSecurity.mockResolvedValue([
+      {
+        code: 'HSTS_MISSING',
+        severity: 'info',
+        category: 'security',
+        message: 'msg',
+        explanation: 'exp',
+        suggestion: 'sug',
+      },
+    ]);
+
+    const report = await runAudit('https://example.com', {
+      rules: { JSONLD_MISSING: 'off', HSTS_MISSING: 'error' },
+    });
+
+    expect(report.modules.find((m) => m.module === 'structuredData')!.findings).toEqual([]);
+    expect(report.summary).toEqual({ errors: 1, warnings: 0, info: 0, passed: 0 });
+  });
+
+  it('excludes findings accepted by the baseline from the summary', async () => {
+    mockStructuredData.mockResolvedValue([
+      {
+        code: 'JSONLD_MISSING',
+        severity: 'error',
+        category: 'structured-data',
+        message: 'msg',
+        explanation: 'exp',
+        suggestion: 'sug',
+      },
+    ]);
+
+    const report = await runAudit('https://example.com', {
+      baseline: { version: 1, entries: [{ code: 'JSONLD_MISSING', reason: 'Docs site' }] },
+    });
+
+    const finding = report.modules.find((m) => m.module === 'structuredData')!.findings[0];
+    expect(finding.suppressed).toEqual({ reason: 'Docs site' });
+    expect(report.summary).toEqual({ errors: 0, warnings: 0, info: 0, passed: 0, suppressed: 1 });
+  });
+
+  it('scores the report with configured weights', async () => {
+    mockSecurity.mockResolvedValue([
+      {
+        code: 'HSTS_MISSING',
+        severity: 'error',
+        category: 'security',
+        message: 'msg',
+        explanation: 'exp',
+        suggestion: 'sug',
+      },
+    ]);
+    mockRobots.mockResolvedValue([
+      {
+        code: 'ROBOTS_MISSING',
+        severity: 'pass',
+        category: 'robots',
+        message: 'msg',
+        explanation: 'exp',
+        suggestion: 'sug',
+      },
+    ]);
+
+    const report = await runAudit('https://example.com', { scoreWeights: { robots: 0 } });
+    expect(report.score).toEqual({ overall: 75, categories: { robots: 100, security: 75 } });
+  });
 });
@@ -1,77 +1,56 @@
 import type {
   AuditContext,
   AuditFinding,
-  AuditModuleResult,
+  AuditOptions,
   AuditReport,
   FetchOptions,
+  FlakyRequest,
 } from './types.js';
+import { DEFAULT_RETRIES, DEFAULT_TTFB_THRESHOLDS } from './constants.js';
 import { normalizeUrl } from './utils/url.js';
-import {
-  auditRedirects,
-  auditRobots,
-  auditSitemap,
-  auditMetadata,
-  auditFavicon,
-  auditNextjs,
-  auditStructuredData,
-  auditCrawl,
-  auditI18n,
-  auditImages,
-  auditSecurity,
-  auditPerformance,
-} from './audit/index.js';
-
-type AuditModule = {
-  name: string;
-  run: (ctx: AuditContext) => Promise<AuditFinding[]>;
-};
-
-const phase1Modules: AuditModule[] = [
-  { name: 'robots', run: auditRobots },
-  { name: 'redirects', run: auditRedirects },
-];
-
-const phase2Modules: AuditModule[] = [
-  { name: 'sitemap', run: auditSitemap },
-  { name: 'metadata', run: auditMetadata },
-  { name: 'favicon', run: auditFavicon },
-  { name: 'nextjs', run: auditNextjs },
-  { name: 'structuredData', run: auditStructuredData },
-  { name: 'i18n', run: auditI18n },
-  { name: 'images', run: auditImages },
-  { name: 'security', run: auditSecurity },
-  { name: 'performance', run: auditPerformance },
-];
-
-async function runModules(
-  modules: AuditModule[],
-  ctx: AuditContext,
-): Promise<AuditModuleResult[]> {
-  const results = await Promise.allSettled(
-    modules.map(async (mod) => {
-      const findings = await mod.run(ctx);
-      return { module: mod.name, findings } satisfies AuditModuleResult;
-    }),
-  );
-
-  return results
-    .filter(
-      (r): r is PromiseFulfilledResult<AuditModuleResult> =>
-        r.status === 'fulfilled',
-    )
-    .map((r) => r.value);
-}
+import { createHttpSession, isSiteUrl } from './utils/http.js';
+import { scopeHostMap } from './utils/hostMap.js';
+import { createRateLimiter } from './utils/rateLimit.js';
+import { createDispatcher } from './utils/dispatcher.js';
+import { builtInModules } from './audit/modules.js';
+import { matches, runModuleGraph, selectModules } from './moduleGraph.js';
+import { applyRules } from './rules.js';
+import { applyBaseline } from './baseline.js';
+import { computeScore } from './score.js';
 
 export async function runAudit(
   url: string,
-  opts: { verbose?: boolean; timeout?: number; pages?: string[]; userAgent?: string; crawl?: number } = {},
+  opts: AuditOptions = {},
 ): Promise<AuditReport> {
   const start = Date.now();
+  const plugins = opts.plugins ?? [];
+
+  const moduleNames = new Set(builtInModules.map((m) => m.name));
+  for (const mod of plugins) {
+    if (moduleNames.has(mod.name)) {
+      throw new Error(`Plugin module name "${mod.name}" conflicts with an existing module`);
+    }
+    moduleNames.add(mod.name);
+  }
+
   const normalized = normalizeUrl(url);
+  const hostname = new URL(normalized).hostname;
 
+  const session = createHttpSession({
+    record: opts.record,
+    replay: opts.replay,
+    limiter: createRateLimiter({ requestsPerSecond: opts.rateLimit, hostConcurrency: opts.hostConcurrency }),
+  });
+  const dispatcher = createDispatcher({ proxy: opts.proxy, ca: opts.ca, insecure: opts.insecure });
   const fetchOptions: FetchOptions = {
     timeout: opts.timeout,
     userAgent: opts.userAgent,
+    headers: opts.headers,
+    headerHost: hostname,
+    hostMap: scopeHostMap(opts.hostMap, hostname),
+    retries: opts.retries ?? DEFAULT_RETRIES,
+    dispatcher,
+    session,
   };
 
   const ctx: AuditContext = {
@@ -81,36 +60,82 @@ export async function runAudit(
     verbose: opts.verbose ?? false,
     pages: opts.pages,
     crawlLimit: opts.crawl,
+    crawlDepth: opts.crawlDepth,
+    ttfbThresholds: { ...DEFAULT_TTFB_THRESHOLDS, ...opts.ttfbThresholds },
+    checkExternal: opts.checkExternal,
+    externalLinks: opts.externalLinks,
+    nearDuplicateThreshold: opts.nearDuplicateThreshold,
+    snapshots: [],
   };
 
-  // Phase 1: robots + redirects (parallel)
-  const phase1Results = await runModules(phase1Modules, ctx);
-
-  // Phase 2: sitemap, metadata, favicon, nextjs (parallel)
-  const phase2Results = await runModules(phase2Modules, ctx);
-
-  const allModules = [...phase1Results, ...phase2Results];
-
-  // Phase 3: crawl (only when --crawl is set)
-  if (opts.crawl !== undefined) {
-    const crawlResults = await runModules([{ name: 'crawl', run: auditCrawl }], ctx);
-    allModules.push(...crawlResults);
+  const enabled = [...builtInModules, ...plugins].filter((m) => m.enabled?.(ctx) ?? true);
+  const selected = selectModules([...builtInModules, ...plugins], { only: opts.only, skip: opts.skip })
+    .filter((m) => enabled.includes(m));
+  const skipped = enabled.filter((m) => !selected.includes(m)).map((m) => m.name);
+  // Otherwise `--only crawl` without `--crawl` would quietly audit nothing
+  for (const term of opts.only ?? []) {
+    if (!enabled.some((m) => matches(m, term))) {
+      const off = [...builtInModules, ...plugins].filter((m) => matches(m, term)).map((m) => m.name);
+      throw new Error(`"${term}" only selects modules that are turned off for this run: ${off.join(', ')}`);
+    }
+  }
+  // Keep-alive connections in a custom pool would otherwise hold the process open
+  const { results, failures } = await runModuleGraph(selected, ctx).finally(() => dispatcher.close());
+  if (session.flaky.length > 0) {
+    results.push({ module: 'http', findings: session.flaky.map((req) => flakyFinding(req, hostname)) });
   }
+  const ruled = applyRules(results, opts.rules);
+  const allModules = opts.baseline ? applyBaseline(ruled, opts.baseline) : ruled;
 
-  // Compute summary
+  // Compute summary; findings accepted by the baseline don't count
   const allFindings = allModules.flatMap((m) => m.findings);
-  const summary = {
-    errors: allFindings.filter((f) => f.severity === 'error').length,
-    warnings: allFindings.filter((f) => f.severity === 'warning').length,
-    info: allFindings.filter((f) => f.severity === 'info').length,
-    passed: allFindings.filter((f) => f.severity === 'pass').length,
+  const counted = allFindings.filter((f) => !f.suppressed);
+  const summary: AuditReport['summary'] = {
+    errors: counted.filter((f) => f.severity === 'error').length,
+    warnings: counted.filter((f) => f.severity === 'warning').length,
+    info: counted.filter((f) => f.severity === 'info').length,
+    passed: counted.filter((f) => f.severity === 'pass').length,
   };
+  if (opts.baseline) {
+    summary.suppressed = allFindings.length - counted.length;
+  }
+  if (ctx.coverage) {
+    summary.coverage = ctx.coverage;
+  }
 
   return {
     url: normalized,
     timestamp: new Date().toISOString(),
     duration: Date.now() - start,
     summary,
+    score: computeScore(allFindings, opts.scoreWeights),
     modules: allModules,
+    failures,
+    skipped,
+    http: { ...session.stats },
+    ...(ctx.snapshots!.length > 0 && { snapshots: ctx.snapshots }),
+    ...(ctx.crawledPages && {
+      crawledPages: ctx.crawledPages.map(({ url, source, depth, status }) => ({ url, source, depth, status })),
+    }),
+    ...(session.timings.length > 0 && { timings: session.timings }),
+  };
+}
+
+/** Only the audited site's own errors affect how it is crawled; third-party hosts are noted as info */
+function flakyFinding(req: FlakyRequest, siteHost: string): AuditFinding {
+  const ownSite = isSiteUrl(req.url, siteHost);
+  return {
+    code: 'FLAKY_RESPONSE',
+    severity: ownSite ? 'warning' : 'info',
+    category: 'network',
+    message: `${req.url} only responded after ${req.attempts} attempts`,
+    explanation: ownSite
+      ? `Earlier attempts failed with ${req.failures.join(', ')}. If Googlebot hits the same errors, it slows down crawling and may drop pages from the index.`
+      : `Earlier attempts failed with ${req.failures.join(', ')}. This is a third-party host, so it doesn't affect how your site is crawled, but resources or links served from it may be unreliable.`,
+    suggestion: ownSite
+      ? 'Check server logs and your hosting provider for intermittent 5xx errors, rate limiting (429) or slow cold starts.'
+      : 'If this host serves your images or other assets, consider moving them to your own domain or a more reliable CDN.',
+    details: { method: req.method, attempts: req.attempts, failures: req.failures },
+    url: req.url,
   };
 }
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import type { AuditFinding } from './types.js';
+import { computeScore } from './score.js';
+
+function makeFinding(overrides: Partial<AuditFinding> = {}): AuditFinding {
+  return {
+    code: 'TITLE_MISSING',
+    severity: 'error',
+    category: 'metadata',
+    message: 'msg',
+    explanation: 'exp',
+    suggestion: 'sug',
+    ...overrides,
+  };
+}
+
+describe('computeScore', () => {
+  it('scores 100 when there are no findings', () => {
+    expect(computeScore([])).toEqual({ overall: 100, categories: {} });
+  });
+
+  it('deducts penalties per category by severity', () => {
+    const score = computeScore([
+      makeFinding({ severity: 'error' }),
+      makeFinding({ severity: 'warning' }),
+      makeFinding({ severity: 'info', category: 'security' }),
+      makeFinding({ severity: 'pass', category: 'robots' }),
+    ]);
+    expect(score.categories).toEqual({ metadata: 65, security: 98, robots: 100 });
+    expect(score.overall).toBe(88);
+  });
+
+  it('floors category scores at 0', () => {
+    const findings = Array.from({ length: 6 }, () => makeFinding());
+    expect(computeScore(findings).categories.metadata).toBe(0);
+  });
+
+  it('weights categories in the overall score', () => {
+    const findings = [
+      makeFinding({ category: 'indexing' }),
+      makeFinding({ severity: 'pass', category: 'performance' }),
+    ];
+    expect(computeScore(findings).overall).toBe(88);
+    expect(computeScore(findings, { indexing: 3 }).overall).toBe(81);
+    expect(computeScore(findings, { performance: 0 }).overall).toBe(75);
+  });
+
+  it('ignores suppressed findings', () => {
+    const score = computeScore([makeFinding({ suppressed: { reason: 'Accepted' } })]);
+    expect(score.categories.metadata).toBe(100);
+  });
+});
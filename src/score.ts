@@ -0,0 +1,42 @@
+import type { AuditFinding, AuditScore, IssueSeverity } from './types.js';
+
+/** Points a single finding takes off its category's score. */
+export const SEVERITY_PENALTIES: Record<IssueSeverity, number> = {
+  error: 25,
+  warning: 10,
+  info: 2,
+  pass: 0,
+};
+
+/**
+ * Score each category from 100 down by its findings' penalties (floored at
+ * 0), then combine the categories into a weighted overall score. Categories
+ * default to weight 1; a weight of 0 leaves a category out of the overall
+ * score. Suppressed findings cost nothing.
+ */
+export function computeScore(
+  findings: AuditFinding[],
+  weights: Record<string, number> = {},
+): AuditScore {
+  const penalties = new Map<string, number>();
+  for (const finding of findings) {
+    const penalty = finding.suppressed ? 0 : SEVERITY_PENALTIES[finding.severity];
+    penalties.set(finding.category, (penalties.get(finding.category) ?? 0) + penalty);
+  }
+
+  const categories: Record<string, number> = {};
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [category, penalty] of penalties) {
+    const score = Math.max(0, 100 - penalty);
+    const weight = weights[category] ?? 1;
+    categories[category] = score;
+    weighted += score * weight;
+    totalWeight += weight;
+  }
+
+  return {
+    overall: totalWeight > 0 ? Math.round(weighted / totalWeight) : 100,
+    categories,
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { AuditReport } from './types.js';
+import { runSites } from './sites.js';
+
+vi.mock('./runner.js', () => ({
+  runAudit: vi.fn(),
+}));
+
+import { runAudit } from './runner.js';
+
+const mockRunAudit = vi.mocked(runAudit);
+
+function makeReport(url: string, summary: Partial<AuditReport['summary']> = {}): AuditReport {
+  return {
+    url,
+    timestamp: '2026-01-01T00:00:00.000Z',
+    duration: 10,
+    summary: { errors: 0, warnings: 0, info: 0, passed: 0, ...summary },
+    modules: [],
+  };
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+});
+
+describe('runSites', () => {
+  it('audits every site with its own options and keeps input order', async () => {
+    mockRunAudit.mockImplementation(async (url) => makeReport(url));
+
+    const report = await runSites([
+      { url: 'https://a.example.com', options: { pages: ['/a'] } },
+      { url: 'https://b.example.com' },
+    ]);
+
+    expect(mockRunAudit).toHaveBeenCalledWith('https://a.example.com', { pages: ['/a'] });
+    expect(mockRunAudit).toHaveBeenCalledWith('https://b.example.com', undefined);
+    expect(report.sites.map((s) => s.url)).toEqual(['https://a.example.com', 'https://b.example.com']);
+  });
+
+  it('totals the per-site summaries', async () => {
+    mockRunAudit
+      .mockResolvedValueOnce(makeReport('https://a.example.com', { errors: 1, warnings: 2 }))
+      .mockResolvedValueOnce(makeReport('https://b.example.com', { errors: 3, passed: 4, suppressed: 1 }));
+
+    const report = await runSites([{ url: 'https://a.example.com' }, { url: 'https://b.example.com' }]);
+
+    expect(report.summary).toEqual({
+      sites: 2,
+      failed: 0,
+      errors: 4,
+      warnings: 2,
+      info: 0,
+      passed: 4,
+      suppressed: 1,
+    });
+  });
+
+  it('records sites whose audit throws without failing the others', async () => {
+    mockRunAudit
+      .mockRejectedValueOnce(new Error('Unknown module or category "sitemaps"'))
+      .mockResolvedValueOnce(makeReport('https://b.example.com'));
+
+    const report = await runSites([{ url: 'https://a.example.com' }, { url: 'https://b.example.com' }]);
+
+    expect(report.sites[0]).toEqual({ url: 'https://a.example.com', error: 'Unknown module or category "sitemaps"' });
+    expect(report.sites[1].report).toBeDefined();
+    expect(report.summary.failed).toBe(1);
+  });
+
+  it('runs no more sites at once than the concurrency limit', async () => {
+    let active = 0;
+    let peak = 0;
+    mockRunAudit.mockImplementation(async (url) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      active--;
+      return makeReport(url);
+    });
+
+    await runSites(Array.from({ length: 5 }, (_, i) => ({ url: `https://site${i}.example.com` })), 2);
+    expect(peak).toBe(2);
+  });
+});
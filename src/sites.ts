@@ -0,0 +1,50 @@
+import type { AuditOptions, MultiSiteReport, SiteResult } from './types.js';
+import { runAudit } from './runner.js';
+import { mapWithConcurrency } from './utils/pool.js';
+import { DEFAULT_SITE_CONCURRENCY } from './constants.js';
+
+export interface SiteTarget {
+  url: string;
+  options?: AuditOptions;
+}
+
+/**
+ * Audit several sites with at most `concurrency` running at once. A site
+ * whose audit throws is recorded with its error instead of failing the run.
+ */
+export async function runSites(
+  targets: SiteTarget[],
+  concurrency: number = DEFAULT_SITE_CONCURRENCY,
+): Promise<MultiSiteReport> {
+  const start = Date.now();
+
+  const sites = await mapWithConcurrency(targets, concurrency, async ({ url, options }): Promise<SiteResult> => {
+    try {
+      return { url, report: await runAudit(url, options) };
+    } catch (err) {
+      return { url, error: err instanceof Error ? err.message : String(err) };
+    }
+  });
+
+  const reports = sites.flatMap((s) => (s.report ? [s.report] : []));
+  const total = (key: 'errors' | 'warnings' | 'info' | 'passed') =>
+    reports.reduce((sum, r) => sum + r.summary[key], 0);
+  const summary: MultiSiteReport['summary'] = {
+    sites: sites.length,
+    failed: sites.length - reports.length,
+    errors: total('errors'),
+    warnings: total('warnings'),
+    info: total('info'),
+    passed: total('passed'),
+  };
+  if (reports.some((r) => r.summary.suppressed !== undefined)) {
+    summary.suppressed = reports.reduce((sum, r) => sum + (r.summary.suppressed ?? 0), 0);
+  }
+
+  return {
+    timestamp: new Date().toISOString(),
+    duration: Date.now() - start,
+    summary,
+    sites,
+  };
+}
@@ -1,3 +1,15 @@
+import type { Dispatcher } from 'undici';
+
+export type RuleSeverity = 'error' | 'warning' | 'info' | 'off';
+
+export interface RuleOverride {
+  severity: RuleSeverity;
+  /** URL globs the override is limited to; applies everywhere when omitted */
+  urls?: string[];
+}
+
+export type RuleConfig = RuleSeverity | RuleOverride | RuleOverride[];
+
 export interface SeoAuditConfig {
   url?: string;
   strict?: boolean;
@@ -6,8 +18,53 @@ export interface SeoAuditConfig {
   pages?: string[];
   report?: 'json' | 'md' | 'html';
   timeout?: number;
+  plugins?: string[];
+  failOnModuleError?: boolean;
+  only?: string[];
+  skip?: string[];
+  rules?: Record<string, RuleConfig>;
+  baseline?: string;
+  scoreWeights?: Record<string, number>;
+  minScore?: number;
+  sites?: SiteConfig[];
+  headers?: Record<string, string>;
+  cookies?: Record<string, string>;
+  basicAuth?: string;
+  /** Trailing slash handling when serving a static export with --dir */
+  trailingSlash?: boolean;
+  /** Redirect /page.html to /page when serving a static export with --dir */
+  cleanUrls?: boolean;
+  /** Production hostnames to serve from another origin, e.g. { "your-site.com": "http://localhost:4000" } */
+  hostMap?: Record<string, string>;
+  rateLimit?: number;
+  hostConcurrency?: number;
+  retries?: number;
+  proxy?: string;
+  caFile?: string;
+  insecure?: boolean;
+  ttfbThresholds?: Partial<TtfbThresholds>;
+  /** Check outbound links on audited pages */
+  checkExternal?: boolean;
+  externalLinks?: ExternalLinkDomains;
+  /** Content similarity (0-1) at which crawled pages count as near-duplicates */
+  nearDuplicateThreshold?: number;
 }
 
+/** Domains to limit external link checks to, or to leave out; subdomains included */
+export interface ExternalLinkDomains {
+  allow?: string[];
+  deny?: string[];
+}
+
+/** Config keys that can be overridden per site in `sites` */
+export type SiteConfig = { url: string } & Pick<
+  SeoAuditConfig,
+  | 'strict' | 'userAgent' | 'pages' | 'timeout' | 'failOnModuleError' | 'only' | 'skip' | 'rules' | 'baseline'
+  | 'scoreWeights' | 'minScore' | 'headers' | 'cookies' | 'basicAuth' | 'hostMap' | 'rateLimit' | 'hostConcurrency'
+  | 'retries' | 'proxy' | 'caFile' | 'insecure' | 'ttfbThresholds' | 'checkExternal' | 'externalLinks'
+  | 'nearDuplicateThreshold'
+>;
+
 export type IssueSeverity = 'error' | 'warning' | 'info' | 'pass';
 
 export type IssueCategory =
@@ -23,7 +80,10 @@ export type IssueCategory =
   | 'i18n'
   | 'images'
   | 'security'
-  | 'performance';
+  | 'performance'
+  | 'links'
+  | 'network'
+  | 'baseline';
 
 export type IssueCode =
   // Redirect issues
@@ -64,11 +124,13 @@ export type IssueCode =
   | 'SITEMAP_INVALID_URL'
   | 'SITEMAP_URL_ERROR'
   | 'SITEMAP_ROBOTS_MISMATCH'
+  | 'SITEMAP_ORPHAN_PAGES'
   // Robots issues
   | 'ROBOTS_MISSING'
   | 'ROBOTS_BLOCKS_ALL'
   | 'ROBOTS_BLOCKS_GOOGLEBOT'
   | 'ROBOTS_NO_SITEMAP'
+  | 'ROBOTS_CRAWL_DELAY'
   // Next.js / Vercel issues
   | 'VERCEL_DETECTED'
   | 'NEXTJS_TRAILING_SLASH_308'
@@ -88,6 +150,11 @@ export type IssueCode =
   | 'CRAWL_PAGE_CANONICAL_MISSING'
   | 'CRAWL_PAGE_CANONICAL_MISMATCH'
   | 'CRAWL_PAGE_JSONLD_MISSING'
+  | 'CRAWL_PAGES_NOT_IN_SITEMAP'
+  | 'DUPLICATE_TITLE'
+  | 'DUPLICATE_DESCRIPTION'
+  | 'DUPLICATE_H1'
+  | 'NEAR_DUPLICATE_CONTENT'
   // i18n / hreflang issues
   | 'HREFLANG_MISSING'
   | 'HREFLANG_INVALID_LANG'
@@ -111,17 +178,75 @@ export type IssueCode =
   | 'HTML_SIZE_WARNING'
   | 'RENDER_BLOCKING_SCRIPT'
   | 'LARGE_INLINE_STYLE'
-  | 'MISSING_PRECONNECT';
+  | 'MISSING_PRECONNECT'
+  | 'SLOW_TTFB'
+  // Link issues
+  | 'BROKEN_INTERNAL_LINK'
+  | 'INTERNAL_LINK_REDIRECT'
+  | 'DEAD_EXTERNAL_LINKS'
+  // Network issues
+  | 'FLAKY_RESPONSE'
+  // Baseline issues
+  | 'BASELINE_EXPIRED';
+
+/**
+ * Plugins may report their own codes and categories. The `string & {}`
+ * intersection keeps editor completion for the built-in literals.
+ */
+export type FindingCode = IssueCode | (string & {});
+export type FindingCategory = IssueCategory | (string & {});
 
 export interface AuditFinding {
-  code: IssueCode;
+  code: FindingCode;
   severity: IssueSeverity;
-  category: IssueCategory;
+  category: FindingCategory;
   message: string;
   explanation: string;
   suggestion: string;
   details?: Record<string, unknown>;
   url?: string;
+  /** Set when a baseline entry accepts this finding */
+  suppressed?: Suppression;
+}
+
+export interface Suppression {
+  reason: string;
+  expires?: string;
+}
+
+export interface BaselineEntry {
+  code: FindingCode;
+  /** URL glob; matches findings for the code on any URL when omitted */
+  url?: string;
+  reason: string;
+  /** ISO date after which the entry stops suppressing */
+  expires?: string;
+}
+
+export interface Baseline {
+  version: 1;
+  entries: BaselineEntry[];
+}
+
+/** Shared context fields that modules populate for each other. */
+export type ContextKey = 'robotsTxt' | 'html' | 'headers' | 'finalUrl' | 'sitemapUrls' | 'crawledPages';
+
+export interface AuditModule {
+  name: string;
+  /** Finding categories this module reports, so `--only`/`--skip` can select by category */
+  categories?: FindingCategory[];
+  /** Context fields this module populates. */
+  provides?: ContextKey[];
+  /** Context fields this module reads; it starts once every provider has finished. */
+  consumes?: ContextKey[];
+  /** Leave the module out of a run when this returns false. */
+  enabled?: (ctx: AuditContext) => boolean;
+  run: (ctx: AuditContext) => Promise<AuditFinding[]>;
+}
+
+export interface AuditPlugin {
+  name: string;
+  modules: AuditModule[];
 }
 
 export interface AuditModuleResult {
@@ -129,6 +254,80 @@ export interface AuditModuleResult {
   findings: AuditFinding[];
 }
 
+export interface ModuleFailure {
+  module: string;
+  message: string;
+  /** Only recorded in verbose mode */
+  stack?: string;
+}
+
+export interface PageSnapshot {
+  url: string;
+  /** Undefined when the page could not be fetched */
+  status?: number;
+  title?: string;
+  canonical?: string;
+  /** Meta robots and X-Robots-Tag directives */
+  robots?: string;
+}
+
+/** How the crawler found a page: listed in the sitemap, linked from a crawled page, or both */
+export type CrawlSource = 'sitemap' | 'link' | 'both';
+
+export interface PageLink {
+  /** Absolute URL without the fragment */
+  url: string;
+  /** Anchor text, or the alt text of a linked image */
+  text: string;
+}
+
+export interface CrawledPage {
+  url: string;
+  source: CrawlSource;
+  /** Links followed to reach the page; 0 for the homepage and sitemap URLs */
+  depth: number;
+  /** Undefined when the page could not be fetched */
+  status?: number;
+  finalUrl?: string;
+  /** Links to pages on the same host, in document order */
+  links: PageLink[];
+  /** Links to other hosts, in document order */
+  externalLinks?: PageLink[];
+  /** Meta robots or X-Robots-Tag noindex */
+  noindex?: boolean;
+  /** Absolute canonical URL */
+  canonical?: string;
+  title?: string;
+  /** Meta description */
+  description?: string;
+  /** Text of the first <h1> */
+  h1?: string;
+  /** SimHash of the main text, when the page has enough of it */
+  contentHash?: string;
+}
+
+/** How well the sitemap and the internal links agree, from a crawl */
+export interface SitemapCoverage {
+  sitemapUrls: number;
+  /** Indexable pages the crawl reached by following links */
+  linkedPages: number;
+  /** Sitemap URLs that no crawled page links to */
+  orphans: number;
+  /** Indexable linked pages the sitemap leaves out */
+  notInSitemap: number;
+  /** Share of all these pages found both in the sitemap and through links, 0–100 */
+  percent: number;
+  /** The crawl stopped at its page limit; only the sitemap URLs it reached are counted */
+  partial?: boolean;
+}
+
+export interface AuditScore {
+  /** Weighted average of the category scores, 0–100 */
+  overall: number;
+  /** 0–100 per finding category */
+  categories: Record<string, number>;
+}
+
 export interface AuditReport {
   url: string;
   timestamp: string;
@@ -138,8 +337,107 @@ export interface AuditReport {
     warnings: number;
     info: number;
     passed: number;
+    /** Findings accepted by the baseline; not counted above */
+    suppressed?: number;
+    coverage?: SitemapCoverage;
   };
+  score?: AuditScore;
   modules: AuditModuleResult[];
+  failures?: ModuleFailure[];
+  /** Modules left out by `only`/`skip` */
+  skipped?: string[];
+  http?: HttpStats;
+  snapshots?: PageSnapshot[];
+  /** Pages visited with `crawl`, and how each was discovered */
+  crawledPages?: Pick<CrawledPage, 'url' | 'source' | 'depth' | 'status'>[];
+  /** One entry per request that went to the network (or was replayed) */
+  timings?: RequestTiming[];
+}
+
+export interface SiteResult {
+  url: string;
+  report?: AuditReport;
+  /** Set when the audit could not run at all */
+  error?: string;
+}
+
+export interface MultiSiteReport {
+  timestamp: string;
+  duration: number;
+  summary: {
+    sites: number;
+    /** Sites whose audit could not run */
+    failed: number;
+    errors: number;
+    warnings: number;
+    info: number;
+    passed: number;
+    suppressed?: number;
+  };
+  sites: SiteResult[];
+}
+
+export interface PageChange {
+  path: string;
+  field: 'status' | 'title' | 'canonical' | 'robots';
+  before?: string | number;
+  after?: string | number;
+}
+
+export interface ComparisonResult {
+  base: string;
+  target: string;
+  /** Findings keyed by code and path, so they match across origins */
+  findings: DiffResult;
+  pages: PageChange[];
+}
+
+export interface AuditOptions {
+  verbose?: boolean;
+  timeout?: number;
+  pages?: string[];
+  userAgent?: string;
+  crawl?: number;
+  /** How many links deep to follow from the homepage and sitemap pages when crawling */
+  crawlDepth?: number;
+  plugins?: AuditModule[];
+  /** Module names or finding categories to run exclusively */
+  only?: string[];
+  /** Module names or finding categories to leave out */
+  skip?: string[];
+  /** Severity overrides keyed by finding code */
+  rules?: Record<string, RuleConfig>;
+  /** Accepted findings to suppress */
+  baseline?: Baseline;
+  /** Category weights for the overall score (default 1 each) */
+  scoreWeights?: Record<string, number>;
+  /** Extra headers for requests to the audited site (auth, bypass tokens) */
+  headers?: Record<string, string>;
+  /** Production hostnames to serve from another origin (e.g. a local build) */
+  hostMap?: Record<string, string>;
+  /** Maximum requests per second to each host */
+  rateLimit?: number;
+  /** Maximum requests in flight to each host */
+  hostConcurrency?: number;
+  /** Extra attempts for network errors, 429 and 5xx responses */
+  retries?: number;
+  /** Proxy URL for every request; defaults to HTTPS_PROXY/HTTP_PROXY */
+  proxy?: string;
+  /** Extra trusted CA certificates (PEM) */
+  ca?: string;
+  /** Skip TLS certificate verification */
+  insecure?: boolean;
+  /** Slow TTFB thresholds for the homepage and crawled pages */
+  ttfbThresholds?: Partial<TtfbThresholds>;
+  /** Check outbound links on audited pages */
+  checkExternal?: boolean;
+  externalLinks?: ExternalLinkDomains;
+  /** Content similarity (0-1) at which crawled pages count as near-duplicates */
+  nearDuplicateThreshold?: number;
+  /** Append every HTTP exchange to this list */
+  record?: HarEntry[];
+  /** Serve requests from these recorded exchanges instead of the network */
+  replay?: HarEntry[];
 }
 
 export interface DiffResult {
@@ -160,9 +458,146 @@ export interface RedirectChain {
   isCircular: boolean;
 }
 
+export interface HttpResponse {
+  url: string;
+  status: number;
+  headers: Headers;
+  body: string;
+  /** Set when the request needed more than one attempt */
+  attempts?: number;
+  /** Measured on the network, or taken from the recording when replaying */
+  timing?: ResponseTiming;
+}
+
+export interface ResponseTiming {
+  /** Milliseconds until response headers arrived, including DNS, connect and TLS */
+  ttfb: number;
+  /** Milliseconds until the body was fully read */
+  total: number;
+  /** Size of the decoded response body */
+  bytes: number;
+  /** Milliseconds resolving the host; only set for requests that opened a connection */
+  dns?: number;
+  /** Milliseconds for the TCP and TLS handshakes; only set for requests that opened a connection */
+  connect?: number;
+}
+
+export type ConnectTiming = Required<Pick<ResponseTiming, 'dns' | 'connect'>>;
+
+export interface RequestTiming extends ResponseTiming {
+  url: string;
+  method: string;
+  status: number;
+}
+
+export interface TtfbThresholds {
+  /** TTFB in ms above which an info finding is reported */
+  info: number;
+  /** TTFB in ms above which a warning is reported */
+  warning: number;
+}
+
+/** A request that failed transiently and then succeeded on a retry */
+export interface FlakyRequest {
+  url: string;
+  method: string;
+  attempts: number;
+  /** Status code or error message of each failed attempt */
+  failures: (number | string)[];
+}
+
+export interface HttpStats {
+  /** Requests that went to the network */
+  requests: number;
+  /** Requests answered from the cache or joined to an identical in-flight request */
+  cached: number;
+}
+
+export interface HttpSession {
+  cache: Map<string, Promise<HttpResponse>>;
+  stats: HttpStats;
+  /** Requests that only succeeded after retries */
+  flaky: FlakyRequest[];
+  /** Timing of every request that went to the network or was replayed */
+  timings: RequestTiming[];
+  /** Every exchange sent to the network is appended here */
+  record?: HarEntry[];
+  /** Answer requests from these recorded exchanges instead of the network */
+  replay?: HarEntry[];
+  /** Paces network requests per host */
+  limiter?: RateLimiter;
+}
+
+export interface RateLimiter {
+  /** Runs `fn` once the host has a free slot and its minimum interval has passed. */
+  schedule<T>(host: string, fn: () => Promise<T>): Promise<T>;
+  /** Spaces requests to `host` at least `seconds` apart (robots.txt Crawl-delay). */
+  setCrawlDelay(host: string, seconds: number): void;
+}
+
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+/** One request/response pair in HTTP Archive (HAR 1.2) format. */
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    queryString: { name: string; value: string }[];
+    cookies: unknown[];
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    /** 0 when the request failed without a response */
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    cookies: unknown[];
+    content: { size: number; mimeType: string; text?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { dns?: number; connect?: number; send: number; wait: number; receive: number };
+  /** fetch redirect mode the request was sent with */
+  _redirect: 'manual' | 'follow';
+  /** URL of the response after fetch followed redirects */
+  _finalUrl?: string;
+  /** Network error message for failed requests */
+  _error?: string;
+}
+
+export interface Har {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
 export interface FetchOptions {
   timeout?: number;
   userAgent?: string;
+  /** Extra request headers, only sent to `headerHost` (with or without "www.") */
+  headers?: Record<string, string>;
+  headerHost?: string;
+  /** Production hostnames to serve from another origin, rewritten in URLs, bodies and redirects */
+  hostMap?: Record<string, string>;
+  /** Extra attempts for network errors, 429 and 5xx responses (default: 0) */
+  retries?: number;
+  /** Connection pool for proxy and custom TLS settings; omit for the default */
+  dispatcher?: Dispatcher;
+  /** Per-run request cache; omit to send every request */
+  session?: HttpSession;
 }
 
 export interface AuditContext {
@@ -173,7 +608,22 @@ export interface AuditContext {
   robotsTxt?: string;
   html?: string;
   headers?: Record<string, string>;
+  finalUrl?: string;
   pages?: string[];
   sitemapUrls?: string[];
   crawlLimit?: number;
+  crawlDepth?: number;
+  /** Pages visited by the crawl module, in crawl order */
+  crawledPages?: CrawledPage[];
+  coverage?: SitemapCoverage;
+  /** Key page facts collected while auditing, for comparing deployments */
+  snapshots?: PageSnapshot[];
+  /** Homepage response timing, set together with `html` */
+  timing?: ResponseTiming;
+  /** Homepage HTTP status, set together with `html`; error pages have `html` too */
+  status?: number;
+  ttfbThresholds?: TtfbThresholds;
+  checkExternal?: boolean;
+  externalLinks?: ExternalLinkDomains;
+  nearDuplicateThreshold?: number;
 }
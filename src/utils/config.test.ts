@@ -125,4 +125,197 @@ describe('validateConfig', () => {
     const config = validateConfig({ url: 'example.com' });
     expect(config.url).toBe('example.com');
   });
+
+  it('accepts plugins as an array of strings', () => {
+    const config = validateConfig({ plugins: ['./seo-checks.mjs', 'seo-audit-plugin-acme'] });
+    expect(config.plugins).toEqual(['./seo-checks.mjs', 'seo-audit-plugin-acme']);
+  });
+
+  it('throws when plugins is not an array of strings', () => {
+    expect(() => validateConfig({ plugins: './plugin.mjs' })).toThrow('"plugins" must be an array of non-empty strings');
+    expect(() => validateConfig({ plugins: [''] })).toThrow('"plugins" must be an array of non-empty strings');
+  });
+
+  it('throws when failOnModuleError is not a boolean', () => {
+    expect(() => validateConfig({ failOnModuleError: 'yes' })).toThrow('"failOnModuleError" must be a boolean');
+  });
+
+  it('accepts only and skip lists', () => {
+    const config = validateConfig({ only: ['robots', 'sitemap'], skip: ['images'] });
+    expect(config.only).toEqual(['robots', 'sitemap']);
+    expect(config.skip).toEqual(['images']);
+  });
+
+  it('throws when only or skip is not a list of strings', () => {
+    expect(() => validateConfig({ only: 'robots' })).toThrow('"only" must be a non-empty array of module names or categories');
+    expect(() => validateConfig({ skip: [] })).toThrow('"skip" must be a non-empty array of module names or categories');
+  });
+
+  it('throws when baseline is not a non-empty string', () => {
+    expect(() => validateConfig({ baseline: true })).toThrow('"baseline" must be a non-empty string');
+  });
+
+  it('accepts score weights and a minimum score', () => {
+    const config = validateConfig({ scoreWeights: { indexing: 3, performance: 0.5 }, minScore: 80 });
+    expect(config.scoreWeights).toEqual({ indexing: 3, performance: 0.5 });
+    expect(config.minScore).toBe(80);
+  });
+
+  it('throws when scoreWeights or minScore are invalid', () => {
+    expect(() => validateConfig({ scoreWeights: { indexing: -1 } })).toThrow('"scoreWeights" must map categories to non-negative numbers');
+    expect(() => validateConfig({ scoreWeights: [1] })).toThrow('"scoreWeights" must map categories to non-negative numbers');
+    expect(() => validateConfig({ minScore: 101 })).toThrow('"minScore" must be a number between 0 and 100');
+  });
+
+  it('accepts sites as URLs or objects with overrides', () => {
+    const config = validateConfig({
+      sites: ['https://a.example.com', { url: 'https://b.example.com', pages: ['/pricing'], strict: true }],
+    });
+    expect(config.sites).toEqual([
+      { url: 'https://a.example.com' },
+      { url: 'https://b.example.com', pages: ['/pricing'], strict: true },
+    ]);
+  });
+
+  it('throws when sites is empty or an entry has no url', () => {
+    expect(() => validateConfig({ sites: [] })).toThrow('"sites" must be a non-empty array of URLs or site objects');
+    expect(() => validateConfig({ sites: [{ pages: ['/a'] }] })).toThrow('sites[0] must be a URL or an object with a "url"');
+  });
+
+  it('points site override errors at the entry', () => {
+    expect(() => validateConfig({ sites: ['a.com', { url: 'b.com', timeout: -1 }] }))
+      .toThrow('Error in .seoauditrc.json: sites[1]: "timeout" must be a positive number');
+    expect(() => validateConfig({ sites: [{ url: 'b.com', report: 'json' }] }))
+      .toThrow('sites[0]: "report" can only be set at the top level');
+  });
+
+  it('accepts request headers, cookies and basic auth', () => {
+    const config = validateConfig({
+      headers: { 'x-vercel-protection-bypass': '${VERCEL_BYPASS}' },
+      cookies: { session: '${SESSION}' },
+      basicAuth: 'staging:${STAGING_PASSWORD}',
+    });
+    expect(config.headers).toEqual({ 'x-vercel-protection-bypass': '${VERCEL_BYPASS}' });
+    expect(config.cookies).toEqual({ session: '${SESSION}' });
+    expect(config.basicAuth).toBe('staging:${STAGING_PASSWORD}');
+  });
+
+  it('throws when headers, cookies or basicAuth are invalid', () => {
+    expect(() => validateConfig({ headers: ['x-a: b'] })).toThrow('"headers" must map names to string values');
+    expect(() => validateConfig({ cookies: { session: 1 } })).toThrow('"cookies" must map names to string values');
+    expect(() => validateConfig({ basicAuth: '' })).toThrow('"basicAuth" must be a "user:password" string');
+  });
+
+  it('accepts static export settings', () => {
+    const config = validateConfig({ trailingSlash: true, cleanUrls: false });
+    expect(config.trailingSlash).toBe(true);
+    expect(config.cleanUrls).toBe(false);
+  });
+
+  it('throws when trailingSlash or cleanUrls is not a boolean', () => {
+    expect(() => validateConfig({ trailingSlash: 'always' })).toThrow('"trailingSlash" must be a boolean');
+    expect(() => validateConfig({ cleanUrls: 1 })).toThrow('"cleanUrls" must be a boolean');
+  });
+
+  it('accepts a host map and normalizes targets to origins', () => {
+    const config = validateConfig({ hostMap: { 'Your-Site.com': 'localhost:4000', 'cdn.your-site.com': 'http://localhost:4000/' } });
+    expect(config.hostMap).toEqual({
+      'your-site.com': 'http://localhost:4000',
+      'cdn.your-site.com': 'http://localhost:4000',
+    });
+  });
+
+  it('throws when hostMap is invalid', () => {
+    expect(() => validateConfig({ hostMap: ['your-site.com'] })).toThrow('"hostMap" must map hostnames to origins');
+    expect(() => validateConfig({ hostMap: { 'https://your-site.com': 'localhost:4000' } })).toThrow('"hostMap" must map hostnames to origins');
+    expect(() => validateConfig({ hostMap: { 'your-site.com': 'http://' } })).toThrow('hostMap target for "your-site.com" must be a valid origin');
+  });
+
+  it('accepts a rate limit and per-host concurrency', () => {
+    const config = validateConfig({ rateLimit: 2.5, hostConcurrency: 2 });
+    expect(config.rateLimit).toBe(2.5);
+    expect(config.hostConcurrency).toBe(2);
+  });
+
+  it('throws when rateLimit or hostConcurrency is invalid', () => {
+    expect(() => validateConfig({ rateLimit: 0 })).toThrow('"rateLimit" must be a positive number of requests per second');
+    expect(() => validateConfig({ hostConcurrency: 1.5 })).toThrow('"hostConcurrency" must be a positive integer');
+  });
+
+  it('accepts retries, including zero', () => {
+    expect(validateConfig({ retries: 0 }).retries).toBe(0);
+    expect(validateConfig({ retries: 4 }).retries).toBe(4);
+  });
+
+  it('throws when retries is invalid', () => {
+    expect(() => validateConfig({ retries: -1 })).toThrow('"retries" must be a non-negative integer');
+    expect(() => validateConfig({ retries: '2' })).toThrow('"retries" must be a non-negative integer');
+  });
+
+  it('accepts ttfbThresholds', () => {
+    expect(validateConfig({ ttfbThresholds: { info: 500, warning: 1500 } }).ttfbThresholds).toEqual({ info: 500, warning: 1500 });
+    expect(validateConfig({ ttfbThresholds: { warning: 3000 } }).ttfbThresholds).toEqual({ warning: 3000 });
+  });
+
+  it('throws when ttfbThresholds is invalid', () => {
+    expect(() => validateConfig({ ttfbThresholds: 800 })).toThrow('"ttfbThresholds" must be an object with "info" and/or "warning"');
+    expect(() => validateConfig({ ttfbThresholds: { info: -1 } })).toThrow('"ttfbThresholds" must be an object');
+    expect(() => validateConfig({ ttfbThresholds: { slow: 800 } })).toThrow('"ttfbThresholds" must be an object');
+  });
+
+  it('accepts external link settings and lowercases domains', () => {
+    const config = validateConfig({ checkExternal: true, externalLinks: { deny: ['LinkedIn.com'], allow: ['github.com'] } });
+    expect(config.checkExternal).toBe(true);
+    expect(config.externalLinks).toEqual({ allow: ['github.com'], deny: ['linkedin.com'] });
+  });
+
+  it('throws when external link settings are invalid', () => {
+    expect(() => validateConfig({ checkExternal: 'yes' })).toThrow('"checkExternal" must be a boolean');
+    expect(() => validateConfig({ externalLinks: ['linkedin.com'] })).toThrow('"externalLinks" must be an object with "allow" and/or "deny" lists of domains');
+    expect(() => validateConfig({ externalLinks: { deny: 'linkedin.com' } })).toThrow('"externalLinks" must be an object');
+    expect(() => validateConfig({ externalLinks: { deny: ['https://linkedin.com/'] } })).toThrow('"externalLinks" must be an object');
+    expect(() => validateConfig({ externalLinks: { block: ['linkedin.com'] } })).toThrow('"externalLinks" must be an object');
+  });
+
+  it('validates the near-duplicate threshold', () => {
+    expect(validateConfig({ nearDuplicateThreshold: 0.85 }).nearDuplicateThreshold).toBe(0.85);
+    expect(validateConfig({ nearDuplicateThreshold: 1 }).nearDuplicateThreshold).toBe(1);
+    expect(() => validateConfig({ nearDuplicateThreshold: 0 })).toThrow('"nearDuplicateThreshold" must be a number between 0 and 1');
+    expect(() => validateConfig({ nearDuplicateThreshold: 90 })).toThrow('"nearDuplicateThreshold" must be a number between 0 and 1');
+    expect(() => validateConfig({ nearDuplicateThreshold: '0.9' })).toThrow('"nearDuplicateThreshold" must be a number between 0 and 1');
+  });
+
+  it('accepts proxy and TLS settings', () => {
+    const config = validateConfig({ proxy: 'http://proxy.corp:3128', caFile: './certs/internal-ca.pem', insecure: false });
+    expect(config.proxy).toBe('http://proxy.corp:3128');
+    expect(config.caFile).toBe('./certs/internal-ca.pem');
+    expect(config.insecure).toBe(false);
+  });
+
+  it('throws when proxy, caFile or insecure are invalid', () => {
+    expect(() => validateConfig({ proxy: 'proxy.corp:3128' })).toThrow('"proxy" must be an http:// or https:// URL');
+    expect(() => validateConfig({ caFile: '' })).toThrow('"caFile" must be a non-empty string');
+    expect(() => validateConfig({ insecure: 'yes' })).toThrow('"insecure" must be a boolean');
+  });
+
+  it('accepts rules as severities, scoped overrides and lists of overrides', () => {
+    const rules = {
+      JSONLD_MISSING: 'off',
+      HSTS_MISSING: 'warning',
+      CANONICAL_MISSING: { severity: 'off', urls: ['/docs/**'] },
+      TITLE_MISSING: [{ severity: 'info', urls: ['/legal/*'] }, { severity: 'error' }],
+    };
+    expect(validateConfig({ rules }).rules).toEqual(rules);
+  });
+
+  it('throws when rules is not an object', () => {
+    expect(() => validateConfig({ rules: ['JSONLD_MISSING'] })).toThrow('"rules" must be an object keyed by finding code');
+  });
+
+  it('throws when a rule has an invalid severity or urls', () => {
+    expect(() => validateConfig({ rules: { JSONLD_MISSING: 'critical' } })).toThrow('rule "JSONLD_MISSING" must be');
+    expect(() => validateConfig({ rules: { JSONLD_MISSING: { severity: 'pass' } } })).toThrow('rule "JSONLD_MISSING" must be');
+    expect(() => validateConfig({ rules: { JSONLD_MISSING: { severity: 'off', urls: '/docs' } } })).toThrow('rule "JSONLD_MISSING" must be');
+    expect(() => validateConfig({ rules: { JSONLD_MISSING: [] } })).toThrow('rule "JSONLD_MISSING" must be');
+  });
 });
@@ -1,8 +1,29 @@
 import { readFileSync } from 'node:fs';
 import { resolve } from 'node:path';
-import type { SeoAuditConfig } from '../types.js';
+import { normalizeOrigin } from './hostMap.js';
+import type { ExternalLinkDomains, RuleConfig, RuleOverride, RuleSeverity, SeoAuditConfig, SiteConfig, TtfbThresholds } from '../types.js';
 
 const CONFIG_FILE = '.seoauditrc.json';
+const TOP_LEVEL_ONLY_KEYS = ['sites', 'verbose', 'report', 'plugins', 'trailingSlash', 'cleanUrls'];
+const RULE_SEVERITIES: RuleSeverity[] = ['error', 'warning', 'info', 'off'];
+
+function isRuleOverride(value: unknown): value is RuleOverride {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const o = value as Record<string, unknown>;
+  if (!RULE_SEVERITIES.includes(o.severity as RuleSeverity)) return false;
+  if (!('urls' in o)) return true;
+  return (
+    Array.isArray(o.urls) &&
+    o.urls.length > 0 &&
+    o.urls.every((u) => typeof u === 'string' && u.length > 0)
+  );
+}
+
+function isRuleConfig(value: unknown): value is RuleConfig {
+  if (typeof value === 'string') return RULE_SEVERITIES.includes(value as RuleSeverity);
+  if (Array.isArray(value)) return value.length > 0 && value.every(isRuleOverride);
+  return isRuleOverride(value);
+}
 
 export function loadConfig(): SeoAuditConfig | undefined {
   const filePath = resolve(process.cwd(), CONFIG_FILE);
@@ -97,5 +118,229 @@ export function validateConfig(raw: unknown): SeoAuditConfig {
     config.timeout = obj.timeout;
   }
 
+  if ('rateLimit' in obj) {
+    if (typeof obj.rateLimit !== 'number' || !isFinite(obj.rateLimit) || obj.rateLimit <= 0) {
+      throw new Error(`Error in ${CONFIG_FILE}: "rateLimit" must be a positive number of requests per second`);
+    }
+    config.rateLimit = obj.rateLimit;
+  }
+
+  if ('hostConcurrency' in obj) {
+    if (typeof obj.hostConcurrency !== 'number' || !Number.isInteger(obj.hostConcurrency) || obj.hostConcurrency <= 0) {
+      throw new Error(`Error in ${CONFIG_FILE}: "hostConcurrency" must be a positive integer`);
+    }
+    config.hostConcurrency = obj.hostConcurrency;
+  }
+
+  if ('retries' in obj) {
+    if (typeof obj.retries !== 'number' || !Number.isInteger(obj.retries) || obj.retries < 0) {
+      throw new Error(`Error in ${CONFIG_FILE}: "retries" must be a non-negative integer`);
+    }
+    config.retries = obj.retries;
+  }
+
+  if ('ttfbThresholds' in obj) {
+    const value = obj.ttfbThresholds;
+    if (
+      typeof value !== 'object' || value === null || Array.isArray(value) ||
+      !Object.entries(value).every(([k, ms]) => (k === 'info' || k === 'warning') && typeof ms === 'number' && isFinite(ms) && ms >= 0)
+    ) {
+      throw new Error(`Error in ${CONFIG_FILE}: "ttfbThresholds" must be an object with "info" and/or "warning" in milliseconds, e.g. { "info": 800, "warning": 1800 }`);
+    }
+    config.ttfbThresholds = value as Partial<TtfbThresholds>;
+  }
+
+  if ('nearDuplicateThreshold' in obj) {
+    const value = obj.nearDuplicateThreshold;
+    if (typeof value !== 'number' || !(value > 0 && value <= 1)) {
+      throw new Error(`Error in ${CONFIG_FILE}: "nearDuplicateThreshold" must be a number between 0 and 1, e.g. 0.9`);
+    }
+    config.nearDuplicateThreshold = value;
+  }
+
+  if ('checkExternal' in obj) {
+    if (typeof obj.checkExternal !== 'boolean') {
+      throw new Error(`Error in ${CONFIG_FILE}: "checkExternal" must be a boolean`);
+    }
+    config.checkExternal = obj.checkExternal;
+  }
+
+  if ('externalLinks' in obj) {
+    const value = obj.externalLinks;
+    const isDomainList = (v: unknown): v is string[] =>
+      Array.isArray(v) && v.every((d) => typeof d === 'string' && /^[a-z0-9.-]+$/i.test(d));
+    if (
+      typeof value !== 'object' || value === null || Array.isArray(value) ||
+      !Object.entries(value).every(([k, v]) => (k === 'allow' || k === 'deny') && isDomainList(v))
+    ) {
+      throw new Error(`Error in ${CONFIG_FILE}: "externalLinks" must be an object with "allow" and/or "deny" lists of domains, e.g. { "deny": ["linkedin.com"] }`);
+    }
+    const domains = value as ExternalLinkDomains;
+    config.externalLinks = {
+      ...(domains.allow && { allow: domains.allow.map((d) => d.toLowerCase()) }),
+      ...(domains.deny && { deny: domains.deny.map((d) => d.toLowerCase()) }),
+    };
+  }
+
+  if ('proxy' in obj) {
+    if (typeof obj.proxy !== 'string' || !/^https?:\/\//i.test(obj.proxy) || !URL.canParse(obj.proxy)) {
+      throw new Error(`Error in ${CONFIG_FILE}: "proxy" must be an http:// or https:// URL`);
+    }
+    config.proxy = obj.proxy;
+  }
+
+  if ('caFile' in obj) {
+    if (typeof obj.caFile !== 'string' || obj.caFile === '') {
+      throw new Error(`Error in ${CONFIG_FILE}: "caFile" must be a non-empty string`);
+    }
+    config.caFile = obj.caFile;
+  }
+
+  if ('insecure' in obj) {
+    if (typeof obj.insecure !== 'boolean') {
+      throw new Error(`Error in ${CONFIG_FILE}: "insecure" must be a boolean`);
+    }
+    config.insecure = obj.insecure;
+  }
+
+  if ('failOnModuleError' in obj) {
+    if (typeof obj.failOnModuleError !== 'boolean') {
+      throw new Error(`Error in ${CONFIG_FILE}: "failOnModuleError" must be a boolean`);
+    }
+    config.failOnModuleError = obj.failOnModuleError;
+  }
+
+  for (const key of ['trailingSlash', 'cleanUrls'] as const) {
+    if (key in obj) {
+      if (typeof obj[key] !== 'boolean') {
+        throw new Error(`Error in ${CONFIG_FILE}: "${key}" must be a boolean`);
+      }
+      config[key] = obj[key];
+    }
+  }
+
+  for (const key of ['only', 'skip'] as const) {
+    if (key in obj) {
+      const value = obj[key];
+      if (!Array.isArray(value) || value.length === 0 || !value.every((v): v is string => typeof v === 'string' && v.length > 0)) {
+        throw new Error(`Error in ${CONFIG_FILE}: "${key}" must be a non-empty array of module names or categories`);
+      }
+      config[key] = value;
+    }
+  }
+
+  if ('plugins' in obj) {
+    if (!Array.isArray(obj.plugins) || !obj.plugins.every((p): p is string => typeof p === 'string' && p.length > 0)) {
+      throw new Error(`Error in ${CONFIG_FILE}: "plugins" must be an array of non-empty strings`);
+    }
+    config.plugins = obj.plugins;
+  }
+
+  if ('baseline' in obj) {
+    if (typeof obj.baseline !== 'string' || obj.baseline === '') {
+      throw new Error(`Error in ${CONFIG_FILE}: "baseline" must be a non-empty string`);
+    }
+    config.baseline = obj.baseline;
+  }
+
+  if ('scoreWeights' in obj) {
+    const weights = obj.scoreWeights;
+    if (
+      typeof weights !== 'object' || weights === null || Array.isArray(weights) ||
+      !Object.values(weights).every((w) => typeof w === 'number' && isFinite(w) && w >= 0)
+    ) {
+      throw new Error(`Error in ${CONFIG_FILE}: "scoreWeights" must map categories to non-negative numbers`);
+    }
+    config.scoreWeights = weights as Record<string, number>;
+  }
+
+  if ('minScore' in obj) {
+    if (typeof obj.minScore !== 'number' || !isFinite(obj.minScore) || obj.minScore < 0 || obj.minScore > 100) {
+      throw new Error(`Error in ${CONFIG_FILE}: "minScore" must be a number between 0 and 100`);
+    }
+    config.minScore = obj.minScore;
+  }
+
+  if ('rules' in obj) {
+    if (typeof obj.rules !== 'object' || obj.rules === null || Array.isArray(obj.rules)) {
+      throw new Error(`Error in ${CONFIG_FILE}: "rules" must be an object keyed by finding code`);
+    }
+    const rules: Record<string, RuleConfig> = {};
+    for (const [code, rule] of Object.entries(obj.rules)) {
+      if (!isRuleConfig(rule)) {
+        throw new Error(
+          `Error in ${CONFIG_FILE}: rule "${code}" must be "error", "warning", "info", "off", or { "severity", "urls" } entries`,
+        );
+      }
+      rules[code] = rule;
+    }
+    config.rules = rules;
+  }
+
+  for (const key of ['headers', 'cookies'] as const) {
+    if (key in obj) {
+      const value = obj[key];
+      if (
+        typeof value !== 'object' || value === null || Array.isArray(value) ||
+        !Object.entries(value).every(([name, v]) => name.length > 0 && typeof v === 'string')
+      ) {
+        throw new Error(`Error in ${CONFIG_FILE}: "${key}" must map names to string values`);
+      }
+      config[key] = value as Record<string, string>;
+    }
+  }
+
+  if ('basicAuth' in obj) {
+    if (typeof obj.basicAuth !== 'string' || obj.basicAuth === '') {
+      throw new Error(`Error in ${CONFIG_FILE}: "basicAuth" must be a "user:password" string`);
+    }
+    config.basicAuth = obj.basicAuth;
+  }
+
+  if ('hostMap' in obj) {
+    const value = obj.hostMap;
+    if (
+      typeof value !== 'object' || value === null || Array.isArray(value) ||
+      !Object.entries(value).every(([host, v]) => host.length > 0 && !host.includes('/') && typeof v === 'string')
+    ) {
+      throw new Error(`Error in ${CONFIG_FILE}: "hostMap" must map hostnames to origins, e.g. { "your-site.com": "http://localhost:4000" }`);
+    }
+    const hostMap: Record<string, string> = {};
+    for (const [host, target] of Object.entries(value as Record<string, string>)) {
+      try {
+        hostMap[host.toLowerCase()] = normalizeOrigin(target, `hostMap target for "${host}"`);
+      } catch (err) {
+        throw new Error(`Error in ${CONFIG_FILE}: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+    config.hostMap = hostMap;
+  }
+
+  if ('sites' in obj) {
+    if (!Array.isArray(obj.sites) || obj.sites.length === 0) {
+      throw new Error(`Error in ${CONFIG_FILE}: "sites" must be a non-empty array of URLs or site objects`);
+    }
+    config.sites = obj.sites.map((site, i) => validateSite(site, i));
+  }
+
   return config;
 }
+
+function validateSite(raw: unknown, index: number): SiteConfig {
+  const site = typeof raw === 'string' ? { url: raw } : raw;
+  if (typeof site !== 'object' || site === null || Array.isArray(site) || !('url' in site)) {
+    throw new Error(`Error in ${CONFIG_FILE}: sites[${index}] must be a URL or an object with a "url"`);
+  }
+  const key = TOP_LEVEL_ONLY_KEYS.find((k) => k in site);
+  if (key) {
+    throw new Error(`Error in ${CONFIG_FILE}: sites[${index}]: "${key}" can only be set at the top level`);
+  }
+
+  // Per-site overrides follow the top-level rules; point errors at the entry
+  try {
+    return validateConfig(site) as SiteConfig;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(message.replace(`Error in ${CONFIG_FILE}: `, `Error in ${CONFIG_FILE}: sites[${index}]: `));
+  }
+}
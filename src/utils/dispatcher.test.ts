@@ -0,0 +1,99 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, request as httpRequest } from 'node:http';
+import type { Server } from 'node:http';
+import { connect } from 'node:net';
+import { Agent, EnvHttpProxyAgent } from 'undici';
+import { createDispatcher } from './dispatcher.js';
+import { fetchPage } from './http.js';
+
+const servers: Server[] = [];
+
+function listen(server: Server): Promise<string> {
+  servers.push(server);
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address();
+      resolve(`http://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}`);
+    });
+  });
+}
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map((s) => new Promise((r) => {
+    s.closeAllConnections();
+    s.close(r);
+  })));
+});
+
+describe('createDispatcher', () => {
+  it('uses a plain agent when nothing is configured', () => {
+    expect(createDispatcher({}, {})).toBeInstanceOf(Agent);
+  });
+
+  it('times DNS and connect for requests that open a connection', async () => {
+    const server = createServer((_req, res) => res.end('ok'));
+    servers.push(server);
+    // Listen on every interface so "localhost" connects whichever address it resolves to
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const address = server.address();
+    const url = `http://localhost:${typeof address === 'object' && address ? address.port : 0}/`;
+
+    const dispatcher = createDispatcher({}, {});
+    const first = await fetchPage(url, { dispatcher });
+    // undici returns the socket to the pool just after the body is read
+    await new Promise((r) => setTimeout(r, 20));
+    const second = await fetchPage(url, { dispatcher });
+    await dispatcher.close();
+
+    expect(first.timing!.dns).toBeGreaterThanOrEqual(0);
+    expect(first.timing!.connect).toBeGreaterThanOrEqual(0);
+    expect(first.timing!.ttfb).toBeGreaterThanOrEqual(first.timing!.dns! + first.timing!.connect!);
+    // The second request reuses the kept-alive connection
+    expect(second.timing).not.toHaveProperty('dns');
+    expect(second.timing).not.toHaveProperty('connect');
+  });
+
+  it('uses a custom agent for CA certificates or insecure mode', () => {
+    expect(createDispatcher({ ca: '-----BEGIN CERTIFICATE-----' }, {})).toBeInstanceOf(Agent);
+    expect(createDispatcher({ insecure: true }, {})).toBeInstanceOf(Agent);
+  });
+
+  it('uses a proxy agent for --proxy or proxy environment variables', () => {
+    expect(createDispatcher({ proxy: 'http://proxy.corp:3128' }, {})).toBeInstanceOf(EnvHttpProxyAgent);
+    expect(createDispatcher({}, { HTTPS_PROXY: 'http://proxy.corp:3128' })).toBeInstanceOf(EnvHttpProxyAgent);
+  });
+
+  it('sends requests through the proxy', async () => {
+    const target = await listen(createServer((_req, res) => res.end('<title>via proxy</title>')));
+    const proxied: string[] = [];
+    const proxy = createServer((req, res) => {
+      // Plain HTTP proxying (absolute-form request target)
+      proxied.push(req.url!);
+      const upstream = httpRequest(req.url!, { method: req.method, headers: req.headers }, (up) => {
+        res.writeHead(up.statusCode!, up.headers);
+        up.pipe(res);
+      });
+      req.pipe(upstream);
+    });
+    proxy.on('connect', (req, socket, head) => {
+      // Tunnelled proxying (CONNECT host:port)
+      proxied.push(req.url!);
+      const [host, port] = req.url!.split(':');
+      const upstream = connect(Number(port), host, () => {
+        socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+        upstream.write(head);
+        upstream.pipe(socket);
+        socket.pipe(upstream);
+      });
+    });
+    const proxyUrl = await listen(proxy);
+
+    const dispatcher = createDispatcher({ proxy: proxyUrl }, {});
+    const page = await fetchPage(`${target}/`, { dispatcher });
+    await dispatcher.close();
+
+    expect(page.body).toBe('<title>via proxy</title>');
+    expect(proxied.length).toBeGreaterThan(0);
+    expect(proxied[0]).toContain(new URL(target).host);
+  });
+});
@@ -0,0 +1,107 @@
+import { subscribe } from 'node:diagnostics_channel';
+import { lookup } from 'node:dns';
+import type { LookupFunction, Socket } from 'node:net';
+import { rootCertificates } from 'node:tls';
+import { Agent, EnvHttpProxyAgent, buildConnector } from 'undici';
+import type { Dispatcher } from 'undici';
+import type { ConnectTiming } from '../types.js';
+
+export interface NetworkOptions {
+  /** Proxy URL for every request; defaults to HTTPS_PROXY/HTTP_PROXY (NO_PROXY is honoured) */
+  proxy?: string;
+  /** Extra trusted CA certificates (PEM), on top of the bundled roots */
+  ca?: string;
+  /** Skip TLS certificate verification */
+  insecure?: boolean;
+}
+
+const PROXY_ENV_VARS = ['HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy'];
+
+/** Latest DNS lookup time per hostname */
+const lookups = new Map<string, number>();
+/** Set-up time of connections that haven't sent a request yet */
+const newSockets = new WeakMap<Socket, ConnectTiming>();
+/** Requests waiting to learn whether they opened a connection, by method and URL */
+const awaiting = new Map<string, ConnectTiming | undefined>();
+
+const timedLookup: LookupFunction = (hostname, options, callback) => {
+  const startedAt = performance.now();
+  lookup(hostname, options, (...args: Parameters<typeof callback>) => {
+    lookups.set(hostname, performance.now() - startedAt);
+    callback(...args);
+  });
+};
+
+/**
+ * undici's connector, timing the DNS lookup and the TCP and TLS handshakes
+ * of each new connection. Requests on a kept-alive connection skip both.
+ */
+function timedConnector(options: buildConnector.BuildOptions): buildConnector.connector {
+  const connect = buildConnector({ ...options, lookup: timedLookup });
+  return (params, callback) => {
+    const startedAt = performance.now();
+    lookups.delete(params.hostname);
+    connect(params, (...args) => {
+      const [, socket] = args;
+      if (socket) {
+        // IP addresses are connected to without a lookup
+        const dns = lookups.get(params.hostname) ?? 0;
+        newSockets.set(socket, { dns: Math.round(dns), connect: Math.round(performance.now() - startedAt - dns) });
+      }
+      callback(...args);
+    });
+  };
+}
+
+// The first request sent on a new connection is the one that waited for it
+subscribe('undici:client:sendHeaders', (message) => {
+  const { request, socket } = message as { request: { method: string; origin: string; path: string }; socket: Socket };
+  const timing = newSockets.get(socket);
+  if (!timing) return;
+  newSockets.delete(socket);
+  const key = `${request.method} ${new URL(request.path, request.origin).href}`;
+  if (awaiting.has(key)) {
+    awaiting.set(key, timing);
+  }
+});
+
+/**
+ * Starts watching for the connection a request opens. The returned function
+ * gives its DNS and connect times, or undefined when the request reused a
+ * connection or didn't go through a dispatcher from `createDispatcher`.
+ */
+export function watchConnection(method: string, url: string): () => ConnectTiming | undefined {
+  const key = `${method} ${new URL(url).href}`;
+  awaiting.set(key, undefined);
+  return () => {
+    const timing = awaiting.get(key);
+    awaiting.delete(key);
+    return timing;
+  };
+}
+
+/**
+ * Builds the connection pool that requests go through: through a proxy
+ * when one is configured, with custom TLS settings when given.
+ */
+export function createDispatcher(
+  opts: NetworkOptions,
+  env: NodeJS.ProcessEnv = process.env,
+): Dispatcher {
+  const tls = {
+    ...(opts.ca && { ca: [...rootCertificates, opts.ca] }),
+    ...(opts.insecure && { rejectUnauthorized: false }),
+  };
+  const hasTls = Object.keys(tls).length > 0;
+  const hasProxy = opts.proxy !== undefined || PROXY_ENV_VARS.some((name) => env[name]);
+
+  if (hasProxy) {
+    return new EnvHttpProxyAgent({
+      ...(opts.proxy && { httpProxy: opts.proxy, httpsProxy: opts.proxy }),
+      // Direct connections (NO_PROXY hosts), the proxied target and an
+      // HTTPS proxy itself may all sit behind the same internal CA
+      ...(hasTls && { connect: tls, requestTls: tls, proxyTls: tls }),
+    });
+  }
+  return new Agent({ connect: timedConnector(tls) });
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { matchUrlPattern } from './glob.js';
+
+describe('matchUrlPattern', () => {
+  it('matches path patterns against the URL path', () => {
+    expect(matchUrlPattern('/docs', 'https://example.com/docs')).toBe(true);
+    expect(matchUrlPattern('/docs', 'https://example.com/docs/intro')).toBe(false);
+  });
+
+  it('matches a single segment with *', () => {
+    expect(matchUrlPattern('/blog/*', 'https://example.com/blog/hello')).toBe(true);
+    expect(matchUrlPattern('/blog/*', 'https://example.com/blog/2024/hello')).toBe(false);
+  });
+
+  it('matches across segments with **', () => {
+    expect(matchUrlPattern('/docs/**', 'https://example.com/docs/a/b/c')).toBe(true);
+    expect(matchUrlPattern('/docs/**', 'https://example.com/blog/a')).toBe(false);
+  });
+
+  it('matches full URL patterns', () => {
+    expect(matchUrlPattern('https://docs.example.com/**', 'https://docs.example.com/guide')).toBe(true);
+    expect(matchUrlPattern('https://docs.example.com/**', 'https://example.com/guide')).toBe(false);
+  });
+
+  it('treats regex characters literally', () => {
+    expect(matchUrlPattern('/a.b', 'https://example.com/a.b')).toBe(true);
+    expect(matchUrlPattern('/a.b', 'https://example.com/axb')).toBe(false);
+  });
+
+  it('matches non-URL values as given', () => {
+    expect(matchUrlPattern('/relative/*', '/relative/path')).toBe(true);
+  });
+});
@@ -0,0 +1,31 @@
+const cache = new Map<string, RegExp>();
+
+function globToRegExp(pattern: string): RegExp {
+  let re = cache.get(pattern);
+  if (!re) {
+    const source = pattern
+      .split('**')
+      .map((part) => part.split('*').map((s) => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+      .join('.*');
+    re = new RegExp(`^${source}$`);
+    cache.set(pattern, re);
+  }
+  return re;
+}
+
+/**
+ * Match a URL against a glob: `*` matches within one path segment, `**`
+ * across segments. Patterns starting with "/" match the URL path only
+ * (so they work across origins); anything else matches the full URL.
+ */
+export function matchUrlPattern(pattern: string, url: string): boolean {
+  let target = url;
+  if (pattern.startsWith('/')) {
+    try {
+      target = new URL(url).pathname;
+    } catch {
+      // Not an absolute URL — match it as given
+    }
+  }
+  return globToRegExp(pattern).test(target);
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { createHar, parseHar, replayEntry, toHarEntry } from './har.js';
+
+function entryFor(url: string, redirect: 'manual' | 'follow' = 'manual') {
+  return toHarEntry({
+    url,
+    method: 'GET',
+    redirect,
+    baseHeaders: { 'User-Agent': 'test' },
+    extraHeaders: {},
+    startedAt: 0,
+    duration: 12,
+    response: { url, status: 200, headers: new Headers({ 'content-type': 'text/html' }), body: '<p>hi</p>' },
+  });
+}
+
+describe('toHarEntry', () => {
+  it('converts an exchange into a HAR 1.2 entry', () => {
+    const entry = entryFor('https://example.com/?q=1');
+    expect(entry.startedDateTime).toBe('1970-01-01T00:00:00.000Z');
+    expect(entry.time).toBe(12);
+    expect(entry.request.queryString).toEqual([{ name: 'q', value: '1' }]);
+    expect(entry.response.content).toEqual({ size: 9, mimeType: 'text/html', text: '<p>hi</p>' });
+    expect(entry._finalUrl).toBeUndefined();
+  });
+
+  it('redacts extra request header values', () => {
+    const entry = toHarEntry({
+      url: 'https://example.com/',
+      method: 'HEAD',
+      redirect: 'follow',
+      baseHeaders: { 'User-Agent': 'test' },
+      extraHeaders: { 'x-vercel-protection-bypass': 'secret' },
+      startedAt: 0,
+      duration: 1,
+      error: 'fetch failed',
+    });
+    expect(entry.request.headers).toEqual([
+      { name: 'User-Agent', value: 'test' },
+      { name: 'x-vercel-protection-bypass', value: '[redacted]' },
+    ]);
+    expect(entry.response.status).toBe(0);
+    expect(entry._error).toBe('fetch failed');
+  });
+});
+
+describe('replayEntry', () => {
+  it('matches on method, redirect mode and URL', () => {
+    const entries = [entryFor('https://example.com/a', 'follow'), entryFor('https://example.com/a')];
+    entries[1].response.status = 404;
+    expect(replayEntry(entries, 'GET', 'manual', 'https://example.com/a').status).toBe(404);
+    expect(replayEntry(entries, 'GET', 'follow', 'https://example.com/a').status).toBe(200);
+    expect(() => replayEntry(entries, 'HEAD', 'follow', 'https://example.com/a')).toThrow('No recorded response');
+  });
+
+  it('round-trips DNS and connect times', () => {
+    const timing = { ttfb: 90, total: 120, bytes: 9, dns: 15, connect: 40 };
+    const entry = toHarEntry({
+      url: 'https://example.com/',
+      method: 'GET',
+      redirect: 'manual',
+      baseHeaders: {},
+      extraHeaders: {},
+      startedAt: 0,
+      duration: 120,
+      response: { url: 'https://example.com/', status: 200, headers: new Headers(), body: '<p>hi</p>', timing },
+    });
+    expect(entry.timings).toEqual({ dns: 15, connect: 40, send: 0, wait: 35, receive: 30 });
+    expect(replayEntry([entry], 'GET', 'manual', 'https://example.com/').timing).toEqual(timing);
+
+    entry.timings = { dns: -1, connect: -1, send: 0, wait: 35, receive: 30 };
+    expect(replayEntry([entry], 'GET', 'manual', 'https://example.com/').timing).toEqual({ ttfb: 35, total: 120, bytes: 9 });
+  });
+});
+
+describe('parseHar', () => {
+  it('round-trips an archive', () => {
+    const har = createHar([entryFor('https://example.com/')]);
+    expect(har.log.version).toBe('1.2');
+    expect(parseHar(JSON.stringify(har))).toEqual(har.log.entries);
+  });
+
+  it('treats entries from other tools as followed requests', () => {
+    const { _redirect: _, ...foreign } = entryFor('https://example.com/');
+    const [entry] = parseHar(JSON.stringify({ log: { entries: [foreign] } }));
+    expect(entry._redirect).toBe('follow');
+  });
+
+  it('throws on malformed archives', () => {
+    expect(() => parseHar('nope')).toThrow('Invalid HAR: not valid JSON');
+    expect(() => parseHar('{}')).toThrow('Invalid HAR: expected a "log.entries" array');
+    expect(() => parseHar('{"log":{"entries":[{}]}}')).toThrow('Invalid HAR: entry 0');
+  });
+});
@@ -0,0 +1,186 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { VERSION } from '../constants.js';
+import type { Har, HarEntry, HarHeader, HttpResponse, ResponseTiming } from '../types.js';
+
+export const REDACTED = '[redacted]';
+
+const SENSITIVE_RESPONSE_HEADERS = new Set(['set-cookie']);
+
+interface Exchange {
+  url: string;
+  method: string;
+  redirect: 'manual' | 'follow';
+  /** Headers that go out on every request; any others carry credentials */
+  baseHeaders: Record<string, string>;
+  extraHeaders: Record<string, string>;
+  startedAt: number;
+  duration: number;
+  response?: HttpResponse;
+  error?: string;
+}
+
+function recordKey(method: string, redirect: string, url: string): string {
+  return `${method} ${redirect} ${url}`;
+}
+
+/**
+ * Converts one request/response pair into a HAR entry. Values of extra
+ * request headers (auth, cookies, bypass tokens) and Set-Cookie response
+ * headers are replaced with "[redacted]" so archives are safe to attach to
+ * bug reports.
+ */
+export function toHarEntry(exchange: Exchange): HarEntry {
+  const { url, method, redirect, response } = exchange;
+  const requestHeaders: HarHeader[] = [
+    ...Object.entries(exchange.baseHeaders).map(([name, value]) => ({ name, value })),
+    ...Object.keys(exchange.extraHeaders).map((name) => ({ name, value: REDACTED })),
+  ];
+  const responseHeaders: HarHeader[] = [];
+  response?.headers.forEach((value, name) => {
+    responseHeaders.push({ name, value: SENSITIVE_RESPONSE_HEADERS.has(name) ? REDACTED : value });
+  });
+  const body = response?.body ?? '';
+  const parsed = new URL(url);
+
+  return {
+    startedDateTime: new Date(exchange.startedAt).toISOString(),
+    time: exchange.duration,
+    request: {
+      method,
+      url,
+      httpVersion: 'HTTP/1.1',
+      headers: requestHeaders,
+      queryString: [...parsed.searchParams].map(([name, value]) => ({ name, value })),
+      cookies: [],
+      headersSize: -1,
+      bodySize: 0,
+    },
+    response: {
+      status: response?.status ?? 0,
+      statusText: '',
+      httpVersion: 'HTTP/1.1',
+      headers: responseHeaders,
+      cookies: [],
+      content: {
+        size: Buffer.byteLength(body),
+        mimeType: response?.headers.get('content-type') ?? '',
+        text: body,
+      },
+      redirectURL: response?.headers.get('location') ?? '',
+      headersSize: -1,
+      bodySize: -1,
+    },
+    cache: {},
+    timings: response?.timing ? harTimings(response.timing) : { send: 0, wait: exchange.duration, receive: 0 },
+    _redirect: redirect,
+    ...(response && response.url !== url && { _finalUrl: response.url }),
+    ...(exchange.error !== undefined && { _error: exchange.error }),
+  };
+}
+
+/** HAR counts DNS and connect time separately from the wait for the first byte */
+function harTimings({ ttfb, total, dns, connect }: ResponseTiming): HarEntry['timings'] {
+  return {
+    ...(dns !== undefined && { dns }),
+    ...(connect !== undefined && { connect }),
+    send: 0,
+    wait: ttfb - (dns ?? 0) - (connect ?? 0),
+    receive: total - ttfb,
+  };
+}
+
+/** Archives from other tools may leave timings out, or mark them -1 */
+function replayTiming(entry: HarEntry): ResponseTiming {
+  const dns = entry.timings?.dns ?? -1;
+  const connect = entry.timings?.connect ?? -1;
+  return {
+    ttfb: Math.max(0, entry.timings?.wait ?? 0) + Math.max(0, dns) + Math.max(0, connect),
+    total: Math.max(0, entry.time ?? 0),
+    bytes: Math.max(0, entry.response.content?.size ?? 0),
+    ...(dns >= 0 && { dns }),
+    ...(connect >= 0 && { connect }),
+  };
+}
+
+/**
+ * Rebuilds the response for a request from a recorded archive. Failed
+ * requests are replayed as the same error; a request that was never
+ * recorded fails rather than silently reaching the network.
+ */
+export function replayEntry(
+  entries: HarEntry[],
+  method: string,
+  redirect: 'manual' | 'follow',
+  url: string,
+): HttpResponse {
+  const key = recordKey(method, redirect, url);
+  const entry = entries.find((e) => recordKey(e.request.method, e._redirect, e.request.url) === key);
+  if (!entry) {
+    throw new Error(`No recorded response for ${method} ${url}`);
+  }
+  if (entry._error !== undefined) {
+    throw new Error(entry._error);
+  }
+
+  const headers = new Headers();
+  for (const { name, value } of entry.response.headers) {
+    headers.append(name, value);
+  }
+  return {
+    url: entry._finalUrl ?? entry.request.url,
+    status: entry.response.status,
+    headers,
+    body: entry.response.content.text ?? '',
+    timing: replayTiming(entry),
+  };
+}
+
+export function createHar(entries: HarEntry[]): Har {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'vercel-seo-audit', version: VERSION },
+      entries,
+    },
+  };
+}
+
+export function parseHar(raw: string): HarEntry[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new Error('Invalid HAR: not valid JSON');
+  }
+
+  const log = (data as { log?: { entries?: unknown } } | null)?.log;
+  if (!log || !Array.isArray(log.entries)) {
+    throw new Error('Invalid HAR: expected a "log.entries" array');
+  }
+
+  for (const [i, entry] of log.entries.entries()) {
+    const e = entry as Partial<HarEntry> | null;
+    if (
+      typeof e?.request?.url !== 'string' ||
+      typeof e.request.method !== 'string' ||
+      typeof e.response?.status !== 'number' ||
+      !Array.isArray(e.response.headers)
+    ) {
+      throw new Error(`Invalid HAR: entry ${i} must have a request url and method and a response status and headers`);
+    }
+    // Archives from browsers or other tools have no redirect mode; fetch
+    // follows redirects by default
+    if (e._redirect !== 'manual') {
+      e._redirect = 'follow';
+    }
+  }
+  return log.entries as HarEntry[];
+}
+
+export function loadHar(path: string): HarEntry[] {
+  return parseHar(readFileSync(path, 'utf-8'));
+}
+
+export function saveHar(path: string, entries: HarEntry[]): void {
+  writeFileSync(path, JSON.stringify(createHar(entries), null, 2) + '\n');
+}
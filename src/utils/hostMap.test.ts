@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { parseMapHostFlag, rewriteBody, rewriteUrl, scopeHostMap } from './hostMap.js';
+
+const map = { 'your-site.com': 'http://localhost:4000' };
+
+describe('parseMapHostFlag', () => {
+  it('parses host=origin and defaults the target to the audited origin', () => {
+    expect(parseMapHostFlag('Your-Site.com=localhost:4000', 'http://127.0.0.1:3000'))
+      .toEqual(['your-site.com', 'http://localhost:4000']);
+    expect(parseMapHostFlag('your-site.com', 'http://127.0.0.1:3000/'))
+      .toEqual(['your-site.com', 'http://127.0.0.1:3000']);
+  });
+
+  it('rejects URLs as the host', () => {
+    expect(() => parseMapHostFlag('https://your-site.com', 'http://localhost')).toThrow('--map-host must look like');
+  });
+});
+
+describe('rewriteUrl', () => {
+  it('moves mapped URLs to the local origin, keeping path and query', () => {
+    expect(rewriteUrl('https://your-site.com/blog?page=2#top', map)).toBe('http://localhost:4000/blog?page=2#top');
+    expect(rewriteUrl('https://www.your-site.com/', map)).toBe('https://www.your-site.com/');
+    expect(rewriteUrl('/relative', map)).toBe('/relative');
+  });
+});
+
+describe('rewriteBody', () => {
+  it('rewrites absolute and protocol-relative URLs on mapped hosts only', () => {
+    const html = [
+      '<link rel="canonical" href="https://your-site.com/about">',
+      '<meta property="og:image" content="//your-site.com/og.png">',
+      '<loc>http://your-site.com:443/</loc>',
+      '<a href="https://your-site.com.evil.net/">',
+      '<a href="https://docs.your-site.com/">',
+    ].join('\n');
+    expect(rewriteBody(html, map)).toBe([
+      '<link rel="canonical" href="http://localhost:4000/about">',
+      '<meta property="og:image" content="http://localhost:4000/og.png">',
+      '<loc>http://localhost:4000/</loc>',
+      '<a href="https://your-site.com.evil.net/">',
+      '<a href="https://docs.your-site.com/">',
+    ].join('\n'));
+  });
+});
+
+describe('scopeHostMap', () => {
+  it('drops the mapping for the audited host', () => {
+    expect(scopeHostMap(map, 'your-site.com')).toBeUndefined();
+    expect(scopeHostMap(map, 'localhost')).toEqual(map);
+    expect(scopeHostMap(undefined, 'localhost')).toBeUndefined();
+  });
+});
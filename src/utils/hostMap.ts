@@ -0,0 +1,66 @@
+/** Maps a production hostname (e.g. "your-site.com") to the origin that serves it locally. */
+export type HostMap = Record<string, string>;
+
+/**
+ * Parse a `--map-host "your-site.com=http://localhost:4000"` flag. Without
+ * a target the host maps to `defaultOrigin` (the audited site).
+ */
+export function parseMapHostFlag(input: string, defaultOrigin: string): [string, string] {
+  const idx = input.indexOf('=');
+  const host = (idx === -1 ? input : input.slice(0, idx)).trim().toLowerCase();
+  const target = idx === -1 ? defaultOrigin : input.slice(idx + 1).trim();
+  if (!host || host.includes('/')) {
+    throw new Error(`--map-host must look like "your-site.com=http://localhost:4000", got "${input}"`);
+  }
+  return [host, normalizeOrigin(target, `--map-host target "${target}"`)];
+}
+
+/** Reduce a target such as "localhost:4000" or "http://localhost:4000/" to its origin. */
+export function normalizeOrigin(target: string, label: string): string {
+  const withProtocol = /^https?:\/\//i.test(target) ? target : `http://${target}`;
+  try {
+    return new URL(withProtocol).origin;
+  } catch {
+    throw new Error(`${label} must be a valid origin`);
+  }
+}
+
+/**
+ * Drop mappings for the audited host itself, so a mapping meant for a local
+ * build is a no-op when the same config audits production.
+ */
+export function scopeHostMap(map: HostMap | undefined, auditedHost: string): HostMap | undefined {
+  if (!map) return undefined;
+  const scoped = Object.fromEntries(Object.entries(map).filter(([host]) => host !== auditedHost.toLowerCase()));
+  return Object.keys(scoped).length > 0 ? scoped : undefined;
+}
+
+/** Point an absolute URL on a mapped host at its local origin. */
+export function rewriteUrl(url: string, map: HostMap): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  const origin = map[parsed.hostname];
+  if (!origin) return url;
+  return origin + parsed.pathname + parsed.search + parsed.hash;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Rewrite absolute and protocol-relative URLs on mapped hosts in a response
+ * body (canonicals, og:image, sitemap <loc>, hreflang) to their local origin.
+ */
+export function rewriteBody(body: string, map: HostMap): string {
+  let result = body;
+  for (const [host, origin] of Object.entries(map)) {
+    const pattern = new RegExp(`(?:https?:)?//${escapeRegExp(host)}(?::\\d+)?(?![\\w.-])`, 'gi');
+    result = result.replace(pattern, origin);
+  }
+  return result;
+}
@@ -7,9 +7,13 @@ import {
   getCharset,
   getViewport,
   getTitle,
+  getH1,
+  getMainTextBlocks,
   getFaviconLinks,
   getHreflangLinks,
   getImages,
+  getLinks,
+  getResolvedLinks,
 } from './html-parser.js';
 
 function html(head: string): string {
@@ -184,6 +188,40 @@ describe('getTitle', () => {
   });
 });
 
+describe('getH1', () => {
+  it('returns the text of the first h1 with whitespace collapsed', () => {
+    expect(getH1('<html><body><h1>Hello <em>big</em>\n  world</h1><h1>Second</h1></body></html>')).toBe('Hello big world');
+  });
+
+  it('returns null when there is no h1 or it is empty', () => {
+    expect(getH1(html(''))).toBeNull();
+    expect(getH1('<html><body><h1> </h1></body></html>')).toBeNull();
+  });
+});
+
+describe('getMainTextBlocks', () => {
+  it('leaves out navigation, header, footer, sidebars and scripts', () => {
+    const blocks = getMainTextBlocks(`<html><body>
+      <header><a href="/">Logo</a></header>
+      <nav><a href="/a">Menu</a></nav>
+      <div><h2>Title</h2><p>First
+        line</p><p>Second</p></div>
+      <aside>Related</aside>
+      <script>track()</script>
+      <footer>© Example</footer>
+    </body></html>`);
+    expect(blocks).toEqual(['Title', 'First line', 'Second']);
+  });
+
+  it('prefers the <main> element', () => {
+    expect(getMainTextBlocks('<html><body><div>Banner</div><main><p>Body <b>text</b></p></main></body></html>')).toEqual(['Body text']);
+  });
+
+  it('uses the <article> element when there is no <main>', () => {
+    expect(getMainTextBlocks('<html><body><div>Promo</div><article><p>Story</p><footer>By Ann</footer></article></body></html>')).toEqual(['Story']);
+  });
+});
+
 describe('getFaviconLinks', () => {
   it('returns favicon links', () => {
     const links = getFaviconLinks(
@@ -331,3 +369,36 @@ describe('getImages', () => {
     expect(images).toHaveLength(0);
   });
 });
+
+describe('getLinks', () => {
+  it('extracts hrefs with their anchor text', () => {
+    const links = getLinks(body('<nav><a href="/about">About\n  us</a><a href=" /blog ">Blog</a></nav>'));
+    expect(links).toEqual([
+      { href: '/about', text: 'About us' },
+      { href: '/blog', text: 'Blog' },
+    ]);
+  });
+
+  it('falls back to aria-label and image alt text', () => {
+    const links = getLinks(body('<a href="/" aria-label="Home"></a><a href="/shop"><img src="/cart.svg" alt="Shop"></a><a href="/x"></a>'));
+    expect(links.map((l) => l.text)).toEqual(['Home', 'Shop', '']);
+  });
+
+  it('skips anchors without an href', () => {
+    expect(getLinks(body('<a name="top">Top</a><a href="">Empty</a>'))).toEqual([]);
+  });
+});
+
+describe('getResolvedLinks', () => {
+  it('resolves web links against the page URL and drops fragments', () => {
+    const links = getResolvedLinks(
+      body('<a href="docs#intro">Docs</a><a href="https://example.com/?q=1">Home</a><a href="https://cdn.example.com/x">CDN</a><a href="mailto:a@example.com">Mail</a><a href="http://[bad">Bad</a>'),
+      'https://example.com/guide/',
+    );
+    expect(links).toEqual([
+      { url: 'https://example.com/guide/docs', text: 'Docs' },
+      { url: 'https://example.com/?q=1', text: 'Home' },
+      { url: 'https://cdn.example.com/x', text: 'CDN' },
+    ]);
+  });
+});
@@ -1,4 +1,5 @@
 import * as cheerio from 'cheerio';
+import type { PageLink } from '../types.js';
 
 export function getCanonicalUrl(html: string): string | null {
   const $ = cheerio.load(html);
@@ -14,6 +15,11 @@ export function getNoindexDirective(html: string): boolean {
   return combined.includes('noindex');
 }
 
+export function getRobotsDirectives(html: string): string | null {
+  const $ = cheerio.load(html);
+  return $('meta[name="robots"]').attr('content')?.trim() || null;
+}
+
 export function getMetaRefresh(html: string): string | null {
   const $ = cheerio.load(html);
   const content = $('meta[http-equiv="refresh"]').attr('content');
@@ -55,6 +61,33 @@ export function getTitle(html: string): string | null {
   return $('title').first().text().trim() || null;
 }
 
+export function getH1(html: string): string | null {
+  const $ = cheerio.load(html);
+  return $('h1').first().text().replace(/\s+/g, ' ').trim() || null;
+}
+
+/**
+ * Visible text of the page's main content, one entry per paragraph, heading,
+ * list item or other block: the <main> or <article> element when there is
+ * one, otherwise the body without navigation, header, footer and sidebars.
+ * This only goes by tags and ARIA roles, so boilerplate in plain <div>s is
+ * left for the caller to spot by comparing pages.
+ */
+export function getMainTextBlocks(html: string): string[] {
+  const $ = cheerio.load(html);
+  $('script, style, noscript, template, svg').remove();
+  const main = $('main, [role="main"]').first();
+  const root = main.length > 0 ? main : $('article').first().length > 0 ? $('article').first() : $('body');
+  root.find('nav, header, footer, aside, [role="navigation"], [role="banner"], [role="contentinfo"]').remove();
+  // Block elements run together in .text(), so mark where each one ends
+  root.find('p, div, li, h1, h2, h3, h4, h5, h6, td, th, br').after('\u2029');
+  return root
+    .text()
+    .split('\u2029')
+    .map((block) => block.replace(/\s+/g, ' ').trim())
+    .filter((block) => block !== '');
+}
+
 export interface FaviconLink {
   rel: string;
   href: string;
@@ -133,3 +166,40 @@ export function getHreflangLinks(html: string): HreflangLink[] {
   });
   return links;
 }
+
+export interface AnchorLink {
+  href: string;
+  text: string;
+}
+
+export function getLinks(html: string): AnchorLink[] {
+  const $ = cheerio.load(html);
+  const links: AnchorLink[] = [];
+  $('a[href]').each((_, el) => {
+    const href = $(el).attr('href')?.trim();
+    if (!href) return;
+    const text = $(el).text().replace(/\s+/g, ' ').trim() ||
+      $(el).attr('aria-label')?.trim() ||
+      $(el).find('img[alt]').first().attr('alt')?.trim() ||
+      '';
+    links.push({ href, text });
+  });
+  return links;
+}
+
+/** Links to web pages, resolved against the page URL and without fragments */
+export function getResolvedLinks(html: string, baseUrl: string): PageLink[] {
+  const links: PageLink[] = [];
+  for (const { href, text } of getLinks(html)) {
+    let url: URL;
+    try {
+      url = new URL(href, baseUrl);
+    } catch {
+      continue;
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') continue;
+    url.hash = '';
+    links.push({ url: url.href, text });
+  }
+  return links;
+}
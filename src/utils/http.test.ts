@@ -0,0 +1,353 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHttpSession, fetchHead, fetchPage, fetchWithoutRedirect, followRedirectChain } from './http.js';
+
+const mockFetch = vi.fn<typeof fetch>();
+
+function respond(status: number, body = '', headers: Record<string, string> = {}): Response {
+  return new Response(status === 204 || status === 304 ? null : body, { status, headers });
+}
+
+beforeEach(() => {
+  mockFetch.mockReset();
+  vi.stubGlobal('fetch', mockFetch);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('followRedirectChain', () => {
+  it('records each hop until a non-redirect response', async () => {
+    mockFetch
+      .mockResolvedValueOnce(respond(301, '', { location: 'https://example.com/' }))
+      .mockResolvedValueOnce(respond(200, 'ok'));
+
+    const chain = await followRedirectChain('http://example.com/');
+    expect(chain.hops).toEqual([{ url: 'http://example.com/', status: 301, location: 'https://example.com/' }]);
+    expect(chain.finalUrl).toBe('https://example.com/');
+    expect(chain.isCircular).toBe(false);
+  });
+
+  it('detects redirect loops', async () => {
+    mockFetch.mockImplementation(async (input) =>
+      String(input) === 'https://example.com/a'
+        ? respond(302, '', { location: '/b' })
+        : respond(302, '', { location: '/a' }),
+    );
+
+    const chain = await followRedirectChain('https://example.com/a');
+    expect(chain.isCircular).toBe(true);
+  });
+});
+
+describe('fetchPage', () => {
+  it('reuses the final hop of the redirect chain instead of re-requesting it', async () => {
+    mockFetch
+      .mockResolvedValueOnce(respond(308, '', { location: 'https://example.com/' }))
+      .mockResolvedValueOnce(respond(200, '<html></html>', { 'x-test': '1' }));
+
+    const page = await fetchPage('https://example.com');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(page.body).toBe('<html></html>');
+    expect(page.status).toBe(200);
+    expect(page.headers.get('x-test')).toBe('1');
+    expect(page.finalUrl).toBe('https://example.com/');
+  });
+
+  it('throws when the page cannot be reached', async () => {
+    mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+    await expect(fetchPage('https://example.com/')).rejects.toThrow('fetch failed');
+  });
+});
+
+describe('HTTP session', () => {
+  it('memoizes identical requests and counts cache hits', async () => {
+    mockFetch.mockImplementation(async () => respond(200, 'body'));
+    const session = createHttpSession();
+
+    await fetchPage('https://example.com/', { session });
+    await fetchPage('https://example.com/', { session });
+    await fetchWithoutRedirect('https://example.com/', { session });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(session.stats.requests).toBe(1);
+    expect(session.stats.cached).toBeGreaterThanOrEqual(3);
+  });
+
+  it('coalesces concurrent identical requests into one fetch', async () => {
+    let release!: () => void;
+    mockFetch.mockImplementation(
+      () => new Promise((resolve) => { release = () => resolve(respond(200, 'ok')); }),
+    );
+    const session = createHttpSession();
+
+    const a = fetchHead('https://example.com/img.png', { session });
+    const b = fetchHead('https://example.com/img.png', { session });
+    release();
+
+    const [resA, resB] = await Promise.all([a, b]);
+    expect(resA.status).toBe(200);
+    expect(resB.status).toBe(200);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('keys the cache by method and request headers', async () => {
+    mockFetch.mockImplementation(async () => respond(200, 'ok'));
+    const session = createHttpSession();
+
+    await fetchHead('https://example.com/', { session });
+    await fetchWithoutRedirect('https://example.com/', { session });
+    await fetchWithoutRedirect('https://example.com/', { session, userAgent: 'googlebot' });
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(session.stats.requests).toBe(3);
+  });
+
+  it('shares failures for the rest of the run', async () => {
+    mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+    const session = createHttpSession();
+
+    await expect(fetchHead('https://example.com/', { session })).rejects.toThrow('fetch failed');
+    await expect(fetchHead('https://example.com/', { session })).rejects.toThrow('fetch failed');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends every request when no session is given', async () => {
+    mockFetch.mockImplementation(async () => respond(200, 'ok'));
+
+    await fetchHead('https://example.com/');
+    await fetchHead('https://example.com/');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('extra request headers', () => {
+  const opts = {
+    headers: { 'x-vercel-protection-bypass': 'secret', Cookie: 'session=abc' },
+    headerHost: 'preview.example.com',
+  };
+
+  function sentHeaders(call: number): Record<string, string> {
+    return mockFetch.mock.calls[call][1]!.headers as Record<string, string>;
+  }
+
+  it('sends them to the audited host', async () => {
+    mockFetch.mockImplementation(async () => respond(200, 'ok'));
+    await fetchHead('https://preview.example.com/robots.txt', opts);
+    expect(sentHeaders(0)['x-vercel-protection-bypass']).toBe('secret');
+    expect(sentHeaders(0).Cookie).toBe('session=abc');
+    expect(sentHeaders(0)['User-Agent']).toBeDefined();
+  });
+
+  it('sends them to the www variant of the audited host', async () => {
+    mockFetch.mockImplementation(async () => respond(200, 'ok'));
+    await fetchHead('https://www.preview.example.com/', opts);
+    expect(sentHeaders(0)['x-vercel-protection-bypass']).toBe('secret');
+  });
+
+  it('does not send them to other hosts', async () => {
+    mockFetch.mockImplementation(async () => respond(200, 'ok'));
+    await fetchHead('https://cdn.example.net/og.png', opts);
+    await fetchHead('https://example.com/', opts);
+    expect(sentHeaders(0)['x-vercel-protection-bypass']).toBeUndefined();
+    expect(sentHeaders(1).Cookie).toBeUndefined();
+  });
+
+  it('drops them when a redirect leaves the audited host', async () => {
+    mockFetch
+      .mockResolvedValueOnce(respond(308, '', { location: '/img/logo.png' }))
+      .mockResolvedValueOnce(respond(302, '', { location: 'https://cdn.example.net/logo.png' }))
+      .mockResolvedValueOnce(respond(200));
+    const res = await fetchHead('https://preview.example.com/logo.png', opts);
+
+    expect(res.status).toBe(200);
+    expect(mockFetch.mock.calls.map(([url, init]) => [url, init!.redirect])).toEqual([
+      ['https://preview.example.com/logo.png', 'manual'],
+      ['https://preview.example.com/img/logo.png', 'manual'],
+      ['https://cdn.example.net/logo.png', 'manual'],
+    ]);
+    expect(sentHeaders(1)['x-vercel-protection-bypass']).toBe('secret');
+    expect(sentHeaders(2)['x-vercel-protection-bypass']).toBeUndefined();
+    expect(sentHeaders(2).Cookie).toBeUndefined();
+  });
+});
+
+
+describe('timing', () => {
+  it('measures each request and logs it on the session', async () => {
+    mockFetch.mockResolvedValueOnce(respond(200, 'héllo'));
+    const session = createHttpSession();
+    const page = await fetchPage('https://example.com/', { session });
+
+    expect(page.timing).toMatchObject({ bytes: 6 });
+    expect(page.timing!.total).toBeGreaterThanOrEqual(page.timing!.ttfb);
+    expect(session.timings).toEqual([{ url: 'https://example.com/', method: 'GET', status: 200, ...page.timing }]);
+  });
+
+  it('logs a cached request once', async () => {
+    mockFetch.mockResolvedValueOnce(respond(200, 'hello'));
+    const session = createHttpSession();
+    await fetchPage('https://example.com/', { session });
+    await fetchPage('https://example.com/', { session });
+    expect(session.timings).toHaveLength(1);
+  });
+
+  it('replays the recorded timing', async () => {
+    mockFetch.mockResolvedValueOnce(respond(200, 'hello'));
+    const recording = createHttpSession({ record: [] });
+    const recorded = await fetchPage('https://example.com/', { session: recording });
+
+    const session = createHttpSession({ replay: recording.record });
+    const page = await fetchPage('https://example.com/', { session });
+    expect(page.timing).toMatchObject({ ttfb: recorded.timing!.ttfb, bytes: 5 });
+    expect(session.timings).toHaveLength(1);
+  });
+});
+
+describe('record and replay', () => {
+  it('records each exchange with redacted credentials', async () => {
+    mockFetch.mockResolvedValueOnce(respond(200, '<html></html>', { 'content-type': 'text/html', 'set-cookie': 'a=b' }));
+    const session = createHttpSession({ record: [] });
+    await fetchPage('https://example.com/', {
+      session,
+      headers: { Authorization: 'Basic c2VjcmV0' },
+      headerHost: 'example.com',
+    });
+
+    expect(session.record).toHaveLength(1);
+    const [entry] = session.record!;
+    expect(entry.request.url).toBe('https://example.com/');
+    expect(entry._redirect).toBe('manual');
+    expect(entry.request.headers).toContainEqual({ name: 'Authorization', value: '[redacted]' });
+    expect(entry.response.status).toBe(200);
+    expect(entry.response.content.text).toBe('<html></html>');
+    expect(entry.response.headers).toContainEqual({ name: 'set-cookie', value: '[redacted]' });
+  });
+
+  it('records failed requests with the error', async () => {
+    mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+    const session = createHttpSession({ record: [] });
+    await expect(fetchHead('https://example.com/', { session })).rejects.toThrow('fetch failed');
+    expect(session.record![0]).toMatchObject({ response: { status: 0 }, _error: 'fetch failed' });
+  });
+
+  it('replays recorded responses without touching the network', async () => {
+    mockFetch
+      .mockResolvedValueOnce(respond(308, '', { location: 'https://example.com/' }))
+      .mockResolvedValueOnce(respond(200, 'hello', { 'x-test': '1' }));
+    const recording = createHttpSession({ record: [] });
+    await fetchPage('https://example.com', { session: recording });
+    mockFetch.mockReset();
+
+    const page = await fetchPage('https://example.com', { session: createHttpSession({ replay: recording.record }) });
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(page).toMatchObject({ body: 'hello', status: 200, finalUrl: 'https://example.com/' });
+    expect(page.headers.get('x-test')).toBe('1');
+  });
+
+  it('replays recorded failures and rejects unrecorded requests', async () => {
+    mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+    const recording = createHttpSession({ record: [] });
+    await fetchHead('https://example.com/', { session: recording }).catch(() => {});
+
+    const replay = createHttpSession({ replay: recording.record });
+    await expect(fetchHead('https://example.com/', { session: replay })).rejects.toThrow('fetch failed');
+    await expect(fetchHead('https://example.com/other', { session: replay }))
+      .rejects.toThrow('No recorded response for HEAD https://example.com/other');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('host mapping', () => {
+  const hostMap = { 'your-site.com': 'http://localhost:4000' };
+
+  it('sends production URLs to the mapped origin', async () => {
+    mockFetch.mockResolvedValueOnce(respond(200, 'ok'));
+    await fetchHead('https://your-site.com/sitemap.xml', { hostMap });
+    expect(String(mockFetch.mock.calls[0][0])).toBe('http://localhost:4000/sitemap.xml');
+  });
+
+  it('rewrites production URLs in bodies and redirects', async () => {
+    mockFetch
+      .mockResolvedValueOnce(respond(308, '', { location: 'https://your-site.com/home' }))
+      .mockResolvedValueOnce(respond(200, '<link rel="canonical" href="https://your-site.com/home">'));
+
+    const page = await fetchPage('http://localhost:4000/', { hostMap, session: createHttpSession() });
+    expect(page.finalUrl).toBe('http://localhost:4000/home');
+    expect(page.body).toBe('<link rel="canonical" href="http://localhost:4000/home">');
+  });
+});
+
+describe('retries', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries 5xx responses and network errors, then notes the flaky request', async () => {
+    mockFetch
+      .mockResolvedValueOnce(respond(503))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(respond(200, 'ok'));
+    const session = createHttpSession();
+
+    const pending = fetchPage('https://example.com/', { retries: 2, session });
+    await vi.runAllTimersAsync();
+    const page = await pending;
+
+    expect(page.status).toBe(200);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(session.flaky).toEqual([
+      { url: 'https://example.com/', method: 'GET', attempts: 3, failures: [503, 'fetch failed'] },
+    ]);
+  });
+
+  it('returns the last response once retries are used up', async () => {
+    mockFetch.mockImplementation(async () => respond(500));
+    const session = createHttpSession();
+
+    const pending = fetchHead('https://example.com/', { retries: 1, session });
+    await vi.runAllTimersAsync();
+    expect((await pending).status).toBe(500);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(session.flaky).toEqual([]);
+  });
+
+  it('does not retry client errors or without retries configured', async () => {
+    mockFetch.mockImplementation(async () => respond(404));
+    await fetchHead('https://example.com/a', { retries: 2 });
+    mockFetch.mockImplementation(async () => respond(503));
+    await fetchHead('https://example.com/b');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('waits for Retry-After on 429', async () => {
+    mockFetch
+      .mockResolvedValueOnce(respond(429, '', { 'retry-after': '3' }))
+      .mockResolvedValueOnce(respond(200));
+
+    const pending = fetchHead('https://example.com/', { retries: 1 });
+    await vi.advanceTimersByTimeAsync(2_900);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(200);
+    expect((await pending).status).toBe(200);
+  });
+
+  it('backs off exponentially with jitter', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    mockFetch.mockImplementation(async () => respond(502));
+
+    const pending = fetchHead('https://example.com/', { retries: 2 });
+    await vi.advanceTimersByTimeAsync(499);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    await pending;
+    vi.mocked(Math.random).mockRestore();
+  });
+});
@@ -1,32 +1,247 @@
-import { DEFAULT_TIMEOUT, MAX_REDIRECTS, USER_AGENT } from '../constants.js';
-import type { FetchOptions, RedirectChain, RedirectHop } from '../types.js';
+import { fetch as fetchWithDispatcher } from 'undici';
+import { DEFAULT_TIMEOUT, MAX_REDIRECTS, MAX_RETRY_DELAY, RETRY_BASE_DELAY, USER_AGENT } from '../constants.js';
+import type { FetchOptions, HttpResponse, HttpSession, RedirectChain, RedirectHop, ResponseTiming } from '../types.js';
+import { watchConnection } from './dispatcher.js';
+import { replayEntry, toHarEntry } from './har.js';
+import { rewriteBody, rewriteUrl } from './hostMap.js';
+import type { HostMap } from './hostMap.js';
 
-function buildHeaders(userAgent?: string): Record<string, string> {
+type RequestMethod = 'GET' | 'HEAD';
+type RedirectMode = 'manual' | 'follow';
+
+function stripWww(hostname: string): string {
+  return hostname.startsWith('www.') ? hostname.slice(4) : hostname;
+}
+
+function baseHeaders(opts?: FetchOptions): Record<string, string> {
   return {
-    'User-Agent': userAgent ?? USER_AGENT,
+    'User-Agent': opts?.userAgent ?? USER_AGENT,
     Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
   };
 }
 
-export async function fetchWithoutRedirect(
+/** Whether `url` is on the audited site, with or without www */
+export function isSiteUrl(url: string, siteHost: string): boolean {
+  return stripWww(new URL(url).hostname) === stripWww(siteHost);
+}
+
+function extraHeaders(url: string, opts?: FetchOptions): Record<string, string> {
+  // Credentials only go to the audited site, never to third-party hosts
+  // such as image CDNs or external links
+  if (opts?.headers && opts.headerHost && isSiteUrl(url, opts.headerHost)) {
+    return opts.headers;
+  }
+  return {};
+}
+
+export function createHttpSession(extras?: Pick<HttpSession, 'record' | 'replay' | 'limiter'>): HttpSession {
+  return { cache: new Map(), stats: { requests: 0, cached: 0 }, flaky: [], timings: [], ...extras };
+}
+
+async function send(
   url: string,
+  method: RequestMethod,
+  redirect: RedirectMode,
+  headers: Record<string, string>,
   opts?: FetchOptions,
-): Promise<Response> {
+): Promise<HttpResponse> {
   const controller = new AbortController();
   const timeout = opts?.timeout ?? DEFAULT_TIMEOUT;
   const timer = setTimeout(() => controller.abort(), timeout);
+  const connection = opts?.dispatcher ? watchConnection(method, url) : undefined;
 
   try {
-    return await fetch(url, {
-      redirect: 'manual',
-      signal: controller.signal,
-      headers: buildHeaders(opts?.userAgent),
-    });
+    const init = { method, redirect, signal: controller.signal, headers };
+    const startedAt = performance.now();
+    // The dispatcher (connection timing, proxy, CA) needs undici's own fetch to go with it
+    const res = opts?.dispatcher
+      ? await fetchWithDispatcher(url, { ...init, dispatcher: opts.dispatcher })
+      : await fetch(url, init);
+    const ttfb = performance.now() - startedAt;
+    const connected = connection?.();
+    const body = method === 'HEAD' ? '' : await res.text();
+    const timing: ResponseTiming = {
+      ttfb: Math.round(ttfb),
+      total: Math.round(performance.now() - startedAt),
+      bytes: Buffer.byteLength(body),
+      ...connected,
+    };
+    return { url: res.url || url, status: res.status, headers: res.headers as Headers, body, timing };
   } finally {
     clearTimeout(timer);
+    // Stop watching if the request failed
+    connection?.();
+  }
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Wait before the next attempt: Retry-After when the server sent one,
+ * otherwise exponential backoff with jitter so parallel requests that failed
+ * together don't retry together.
+ */
+function retryDelay(attempt: number, retryAfter: string | null): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = retryAfter.trim() !== '' && isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+    if (!isNaN(ms)) return Math.min(Math.max(0, ms), MAX_RETRY_DELAY);
+  }
+  const backoff = RETRY_BASE_DELAY * 2 ** attempt;
+  return Math.min(backoff / 2 + Math.random() * (backoff / 2), MAX_RETRY_DELAY);
+}
+
+/**
+ * Sends with up to `opts.retries` extra attempts for network errors, 429
+ * and 5xx. Each attempt waits its turn in the session's rate limiter, and
+ * requests that only succeeded after retrying are noted on the session.
+ */
+async function sendWithRetries(
+  url: string,
+  method: RequestMethod,
+  redirect: RedirectMode,
+  headers: Record<string, string>,
+  opts: FetchOptions | undefined,
+  session?: HttpSession,
+): Promise<HttpResponse> {
+  const retries = opts?.retries ?? 0;
+  const failures: (number | string)[] = [];
+  const sendNow = () => send(url, method, redirect, headers, opts);
+
+  for (let attempt = 0; ; attempt++) {
+    let res: HttpResponse | undefined;
+    let error: unknown;
+    try {
+      res = await (session?.limiter ? session.limiter.schedule(new URL(url).host, sendNow) : sendNow());
+    } catch (err) {
+      error = err;
+    }
+
+    if (res && !isRetryable(res.status)) {
+      if (attempt === 0) return res;
+      session?.flaky.push({ url, method, attempts: attempt + 1, failures });
+      return { ...res, attempts: attempt + 1 };
+    }
+    if (attempt >= retries) {
+      if (!res) throw error;
+      return attempt === 0 ? res : { ...res, attempts: attempt + 1 };
+    }
+
+    failures.push(res ? res.status : error instanceof Error ? error.message : String(error));
+    await new Promise((resolve) => setTimeout(resolve, retryDelay(attempt, res?.headers.get('retry-after') ?? null)));
+  }
+}
+
+function logTiming(session: HttpSession, method: RequestMethod, res: HttpResponse): HttpResponse {
+  if (res.timing) {
+    session.timings.push({ url: res.url, method, status: res.status, ...res.timing });
+  }
+  return res;
+}
+
+/**
+ * Sends through the session's archive: replayed sessions answer from the
+ * recording and never touch the network, recording sessions log each
+ * exchange once it settles.
+ */
+async function sendWithArchive(
+  url: string,
+  method: RequestMethod,
+  redirect: RedirectMode,
+  base: Record<string, string>,
+  extra: Record<string, string>,
+  opts: FetchOptions | undefined,
+  session: HttpSession,
+): Promise<HttpResponse> {
+  if (session.replay) {
+    return logTiming(session, method, replayEntry(session.replay, method, redirect, url));
+  }
+
+  const startedAt = Date.now();
+  const pending = sendWithRetries(url, method, redirect, { ...base, ...extra }, opts, session)
+    .then((res) => logTiming(session, method, res));
+  const record = session.record;
+  if (!record) {
+    return pending;
+  }
+
+  const log = (response?: HttpResponse, error?: string) => {
+    record.push(toHarEntry({
+      url, method, redirect, baseHeaders: base, extraHeaders: extra,
+      startedAt, duration: Date.now() - startedAt, response, error,
+    }));
+  };
+  try {
+    const response = await pending;
+    log(response);
+    return response;
+  } catch (err) {
+    log(undefined, err instanceof Error ? err.message : String(err));
+    throw err;
   }
 }
 
+function rewriteResponse(res: HttpResponse, map: HostMap): HttpResponse {
+  const location = res.headers.get('location');
+  let headers = res.headers;
+  if (location) {
+    headers = new Headers(res.headers);
+    headers.set('location', rewriteUrl(location, map));
+  }
+  return { ...res, headers, body: rewriteBody(res.body, map) };
+}
+
+/**
+ * Every request goes through here. With a session, responses are memoized by
+ * method, redirect mode, URL and request headers, and identical concurrent
+ * requests share one in-flight promise (failures included, so a run sees a
+ * consistent view of each URL).
+ */
+async function request(
+  url: string,
+  method: RequestMethod,
+  redirect: RedirectMode,
+  opts?: FetchOptions,
+): Promise<HttpResponse> {
+  // Production URLs found in pages and sitemaps go to the local server instead
+  const hostMap = opts?.hostMap;
+  if (hostMap) {
+    url = rewriteUrl(url, hostMap);
+  }
+
+  const base = baseHeaders(opts);
+  const extra = extraHeaders(url, opts);
+  const headers = { ...base, ...extra };
+  const session = opts?.session;
+  if (!session) {
+    const res = await sendWithRetries(url, method, redirect, headers, opts);
+    return hostMap ? rewriteResponse(res, hostMap) : res;
+  }
+
+  const key = `${method} ${redirect} ${url} ${JSON.stringify(headers)}`;
+  const cached = session.cache.get(key);
+  if (cached) {
+    session.stats.cached++;
+    return cached;
+  }
+
+  session.stats.requests++;
+  const sent = sendWithArchive(url, method, redirect, base, extra, opts, session);
+  const pending = hostMap ? sent.then((res) => rewriteResponse(res, hostMap)) : sent;
+  session.cache.set(key, pending);
+  return pending;
+}
+
+export async function fetchWithoutRedirect(
+  url: string,
+  opts?: FetchOptions,
+): Promise<{ status: number; headers: Headers }> {
+  const res = await request(url, 'GET', 'manual', opts);
+  return { status: res.status, headers: res.headers };
+}
+
 export async function followRedirectChain(
   url: string,
   opts?: FetchOptions,
@@ -41,7 +256,7 @@ export async function followRedirectChain(
     }
     seen.add(current);
 
-    let res: Response;
+    let res: { status: number; headers: Headers };
     try {
       res = await fetchWithoutRedirect(current, opts);
     } catch {
@@ -66,45 +281,35 @@ export async function followRedirectChain(
 export async function fetchPage(
   url: string,
   opts?: FetchOptions,
-): Promise<{ body: string; status: number; headers: Headers; finalUrl: string }> {
-  const chain = await followRedirectChain(url, opts);
-  const finalUrl = chain.finalUrl;
+): Promise<{ body: string; status: number; headers: Headers; finalUrl: string; timing?: ResponseTiming }> {
+  // The last hop of the chain already fetched the final URL; a session
+  // (even a throwaway one) lets us reuse that response instead of re-requesting it.
+  const scoped: FetchOptions = opts?.session ? opts : { ...opts, session: createHttpSession() };
 
-  const controller = new AbortController();
-  const timeout = opts?.timeout ?? DEFAULT_TIMEOUT;
-  const timer = setTimeout(() => controller.abort(), timeout);
-
-  try {
-    const res = await fetch(finalUrl, {
-      redirect: 'follow',
-      signal: controller.signal,
-      headers: buildHeaders(opts?.userAgent),
-    });
-
-    const body = await res.text();
-    return { body, status: res.status, headers: res.headers, finalUrl };
-  } finally {
-    clearTimeout(timer);
-  }
+  const chain = await followRedirectChain(url, scoped);
+  const res = await request(chain.finalUrl, 'GET', 'manual', scoped);
+  return { body: res.body, status: res.status, headers: res.headers, finalUrl: chain.finalUrl, timing: res.timing };
 }
 
 export async function fetchHead(
   url: string,
   opts?: FetchOptions,
 ): Promise<{ status: number; headers: Headers }> {
-  const controller = new AbortController();
-  const timeout = opts?.timeout ?? DEFAULT_TIMEOUT;
-  const timer = setTimeout(() => controller.abort(), timeout);
-
-  try {
-    const res = await fetch(url, {
-      method: 'HEAD',
-      redirect: 'follow',
-      signal: controller.signal,
-      headers: buildHeaders(opts?.userAgent),
-    });
+  if (!opts?.headers || Object.keys(opts.headers).length === 0) {
+    const res = await request(url, 'HEAD', 'follow', opts);
     return { status: res.status, headers: res.headers };
-  } finally {
-    clearTimeout(timer);
   }
+
+  // fetch would forward the credentials wherever the site redirects, e.g. to
+  // an image CDN; each hop here only gets them while it stays on the site
+  let current = url;
+  for (let i = 0; i <= MAX_REDIRECTS; i++) {
+    const res = await request(current, 'HEAD', 'manual', opts);
+    const location = res.headers.get('location');
+    if (!location || res.status < 300 || res.status >= 400) {
+      return { status: res.status, headers: res.headers };
+    }
+    current = new URL(location, current).href;
+  }
+  throw new Error(`Too many redirects from ${url}`);
 }
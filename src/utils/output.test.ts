@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { formatHtml } from './output.js';
+import { formatHtml, formatSitesHtml, formatSitesMarkdown } from './output.js';
 import type { AuditReport } from '../types.js';
 
 function makeReport(overrides?: Partial<AuditReport>): AuditReport {
@@ -62,6 +62,46 @@ describe('formatHtml', () => {
     expect(html).toContain('500ms');
   });
 
+  it('renders module failures', () => {
+    const html = formatHtml(makeReport({
+      failures: [{ module: 'i18n', message: 'Cannot read <properties>', stack: 'Error: at i18n.ts:1' }],
+    }));
+    expect(html).toContain('Module failures');
+    expect(html).toContain('<strong>i18n</strong>: Cannot read &lt;properties&gt;');
+    expect(html).toContain('<pre>Error: at i18n.ts:1</pre>');
+  });
+
+  it('renders suppressed findings with their reason', () => {
+    const report = makeReport();
+    report.summary.suppressed = 1;
+    report.modules[0].findings[1].suppressed = { reason: 'Accepted <for now>', expires: '2026-12-31' };
+    const html = formatHtml(report);
+    expect(html).toContain('<div class="finding suppressed" data-severity="suppressed">');
+    expect(html).toContain('Accepted: Accepted &lt;for now&gt; (until 2026-12-31)');
+    expect(html).toContain('data-filter="suppressed"');
+  });
+
+  it('renders the overall and category scores', () => {
+    const html = formatHtml(makeReport({ score: { overall: 72, categories: { metadata: 65, robots: 100 } } }));
+    expect(html).toContain('<div class="score-overall score-fair">72<span>/100</span></div>');
+    expect(html).toContain('<li><span>metadata</span><strong class="score-fair">65</strong></li>');
+    expect(html).toContain('<li><span>robots</span><strong class="score-good">100</strong></li>');
+  });
+
+  it('shows the sitemap coverage under the summary', () => {
+    const report = makeReport();
+    report.summary.coverage = { sitemapUrls: 10, linkedPages: 12, orphans: 1, notInSitemap: 3, percent: 69 };
+    expect(formatHtml(report)).toContain(
+      '<p class="coverage">Sitemap coverage 69% (1 orphan, 3 linked pages not in the sitemap)</p>',
+    );
+    expect(formatHtml(makeReport())).not.toContain('class="coverage"');
+  });
+
+  it('includes request counts when present', () => {
+    const html = formatHtml(makeReport({ http: { requests: 12, cached: 30 } }));
+    expect(html).toContain('12 requests, 30 from cache');
+  });
+
   it('contains summary counts', () => {
     const html = formatHtml(makeReport());
     expect(html).toContain('Errors');
@@ -135,3 +175,34 @@ describe('formatHtml', () => {
     expect(html).toContain('https://example.com/page');
   });
 });
+
+describe('multi-site formatters', () => {
+  const sitesReport = {
+    timestamp: '2026-01-01T00:00:00.000Z',
+    duration: 900,
+    summary: { sites: 2, failed: 1, errors: 1, warnings: 1, info: 0, passed: 1 },
+    sites: [
+      { url: 'https://example.com', report: makeReport({ score: { overall: 70, categories: { metadata: 70 } } }) },
+      { url: 'https://broken.example.com', error: 'Invalid <URL>' },
+    ],
+  };
+
+  it('renders an overview row per site and nests site reports in Markdown', () => {
+    const md = formatSitesMarkdown(sitesReport);
+    expect(md).toContain('# SEO Audit Report for 2 sites');
+    expect(md).toContain('| https://example.com | 70 | 1 | 1 | 0 | 1 |');
+    expect(md).toContain('| https://broken.example.com | ❌ Audit failed: Invalid <URL> | | | | |');
+    expect(md).toContain('## SEO Audit Report for https://example.com');
+    expect(md).toContain('### Summary');
+  });
+
+  it('renders an overview table and a section per site in HTML', () => {
+    const html = formatSitesHtml(sitesReport);
+    expect(html).toContain('<a href="#site-0">https://example.com</a>');
+    expect(html).toContain('Audit failed: Invalid &lt;URL&gt;');
+    expect(html).toContain('<section class="site" id="site-0">');
+    expect(html).toContain('Title tag is missing');
+    expect(html.match(/class="filters"/g)).toHaveLength(1);
+  });
+});
+
@@ -1,5 +1,15 @@
 import chalk from 'chalk';
-import type { AuditFinding, AuditReport, DiffResult, IssueSeverity } from '../types.js';
+import type {
+  AuditFinding,
+  AuditReport,
+  ComparisonResult,
+  DiffResult,
+  IssueSeverity,
+  MultiSiteReport,
+  PageChange,
+  SitemapCoverage,
+} from '../types.js';
+import { findingPath } from '../compare.js';
 
 const severityColors: Record<IssueSeverity, (text: string) => string> = {
   error: chalk.red,
@@ -15,7 +25,31 @@ const severityIcons: Record<IssueSeverity, string> = {
   pass: '✔',
 };
 
+function formatRequestStats(report: AuditReport): string {
+  if (!report.http) return '';
+  const { requests, cached } = report.http;
+  return ` (${requests} request${requests !== 1 ? 's' : ''}, ${cached} from cache)`;
+}
+
+function scoreColor(score: number): typeof chalk.green {
+  if (score >= 90) return chalk.green;
+  if (score >= 50) return chalk.yellow;
+  return chalk.red;
+}
+
+function formatSuppression(finding: AuditFinding): string {
+  const { reason, expires } = finding.suppressed!;
+  return expires ? `${reason} (until ${expires})` : reason;
+}
+
 function formatFinding(finding: AuditFinding, verbose: boolean): string {
+  if (finding.suppressed) {
+    const lines = [chalk.dim(`  ○ [SUPPRESSED ${finding.severity.toUpperCase()}] ${finding.message}`)];
+    lines.push(chalk.dim(`    Accepted: ${formatSuppression(finding)}`));
+    if (finding.url) lines.push(chalk.dim(`    URL: ${finding.url}`));
+    return lines.join('\n');
+  }
+
   const color = severityColors[finding.severity];
   const icon = severityIcons[finding.severity];
   const lines: string[] = [];
@@ -35,23 +69,54 @@ function formatFinding(finding: AuditFinding, verbose: boolean): string {
   return lines.join('\n');
 }
 
+function describeCoverage(coverage: SitemapCoverage): string {
+  const partial = coverage.partial ? `, partial: only the ${coverage.sitemapUrls} sitemap URLs the crawl reached` : '';
+  return `Sitemap coverage ${coverage.percent}% (${coverage.orphans} orphan${coverage.orphans !== 1 ? 's' : ''}, ${coverage.notInSitemap} linked page${coverage.notInSitemap !== 1 ? 's' : ''} not in the sitemap${partial})`;
+}
+
 export function formatReport(report: AuditReport, verbose: boolean): string {
   const lines: string[] = [];
 
   lines.push('');
   lines.push(chalk.bold.underline(`SEO Audit Report for ${report.url}`));
-  lines.push(chalk.dim(`  Completed in ${report.duration}ms at ${report.timestamp}`));
+  lines.push(chalk.dim(`  Completed in ${report.duration}ms at ${report.timestamp}${formatRequestStats(report)}`));
+  if (report.skipped && report.skipped.length > 0) {
+    lines.push(chalk.dim(`  Skipped modules: ${report.skipped.join(', ')}`));
+  }
   lines.push('');
 
   // Summary
-  const { errors, warnings, info, passed } = report.summary;
+  const { errors, warnings, info, passed, suppressed = 0 } = report.summary;
   lines.push(chalk.bold('  Summary:'));
   if (errors > 0) lines.push(chalk.red(`    ✖ ${errors} error${errors !== 1 ? 's' : ''}`));
   if (warnings > 0) lines.push(chalk.yellow(`    ⚠ ${warnings} warning${warnings !== 1 ? 's' : ''}`));
   if (info > 0) lines.push(chalk.blue(`    ℹ ${info} info`));
   if (passed > 0) lines.push(chalk.green(`    ✔ ${passed} passed`));
+  if (suppressed > 0) lines.push(chalk.dim(`    ○ ${suppressed} suppressed by baseline`));
+  if (report.summary.coverage) lines.push(chalk.dim(`    ◎ ${describeCoverage(report.summary.coverage)}`));
   lines.push('');
 
+  if (report.score) {
+    const { overall, categories } = report.score;
+    lines.push(chalk.bold('  Score: ') + scoreColor(overall).bold(`${overall}/100`));
+    const parts = Object.entries(categories).map(([category, score]) => `${category} ${scoreColor(score)(String(score))}`);
+    if (parts.length > 0) lines.push(`    ${parts.join(chalk.dim(' · '))}`);
+    lines.push('');
+  }
+
+  // Modules that threw — their checks are missing from this report
+  const failures = report.failures ?? [];
+  if (failures.length > 0) {
+    lines.push(chalk.red.bold(`  ${failures.length} module${failures.length !== 1 ? 's' : ''} failed — results are incomplete:`));
+    for (const failure of failures) {
+      lines.push(chalk.red(`    ✖ ${failure.module}: ${failure.message}`));
+      if (failure.stack) {
+        lines.push(chalk.dim(`      ${failure.stack.split('\n').join('\n      ')}`));
+      }
+    }
+    lines.push('');
+  }
+
   // Group findings by category
   const allFindings: AuditFinding[] = report.modules.flatMap((m) => m.findings);
   const categories = new Map<string, AuditFinding[]>();
@@ -79,7 +144,7 @@ export function formatReport(report: AuditReport, verbose: boolean): string {
   return lines.join('\n');
 }
 
-export function formatJson(report: AuditReport): string {
+export function formatJson(report: AuditReport | MultiSiteReport): string {
   return JSON.stringify(report, null, 2);
 }
 
@@ -91,6 +156,13 @@ const severityMdIcons: Record<IssueSeverity, string> = {
 };
 
 function formatFindingMd(finding: AuditFinding): string {
+  if (finding.suppressed) {
+    const lines = [`- 🔇 ~~[${finding.severity.toUpperCase()}] ${finding.message}~~`];
+    lines.push(`  - Accepted: ${formatSuppression(finding)}`);
+    if (finding.url) lines.push(`  - URL: \`${finding.url}\``);
+    return lines.join('\n');
+  }
+
   const icon = severityMdIcons[finding.severity];
   const lines: string[] = [];
 
@@ -110,11 +182,15 @@ export function formatMarkdown(report: AuditReport): string {
 
   lines.push(`# SEO Audit Report for ${report.url}`);
   lines.push('');
-  lines.push(`> Completed in ${report.duration}ms at ${report.timestamp}`);
+  lines.push(`> Completed in ${report.duration}ms at ${report.timestamp}${formatRequestStats(report)}`);
+  if (report.skipped && report.skipped.length > 0) {
+    lines.push('>');
+    lines.push(`> Skipped modules: ${report.skipped.join(', ')}`);
+  }
   lines.push('');
 
   // Summary
-  const { errors, warnings, info, passed } = report.summary;
+  const { errors, warnings, info, passed, suppressed = 0 } = report.summary;
   lines.push('## Summary');
   lines.push('');
   lines.push('| Severity | Count |');
@@ -123,7 +199,44 @@ export function formatMarkdown(report: AuditReport): string {
   if (warnings > 0) lines.push(`| ⚠️ Warnings | ${warnings} |`);
   if (info > 0) lines.push(`| ℹ️ Info | ${info} |`);
   if (passed > 0) lines.push(`| ✅ Passed | ${passed} |`);
+  if (suppressed > 0) lines.push(`| 🔇 Suppressed | ${suppressed} |`);
   lines.push('');
+  if (report.summary.coverage) {
+    lines.push(describeCoverage(report.summary.coverage));
+    lines.push('');
+  }
+
+  if (report.score) {
+    lines.push(`## Score: ${report.score.overall}/100`);
+    lines.push('');
+    const categories = Object.entries(report.score.categories);
+    if (categories.length > 0) {
+      lines.push('| Category | Score |');
+      lines.push('|----------|-------|');
+      for (const [category, score] of categories) {
+        lines.push(`| ${category} | ${score} |`);
+      }
+      lines.push('');
+    }
+  }
+
+  const failures = report.failures ?? [];
+  if (failures.length > 0) {
+    lines.push('## Module failures');
+    lines.push('');
+    lines.push('> These modules threw an error, so their checks are missing from this report.');
+    lines.push('');
+    for (const failure of failures) {
+      lines.push(`- ❌ **${failure.module}**: ${failure.message}`);
+      if (failure.stack) {
+        lines.push('');
+        lines.push('  ```');
+        lines.push(...failure.stack.split('\n').map((l) => `  ${l}`));
+        lines.push('  ```');
+      }
+    }
+    lines.push('');
+  }
 
   // Group findings by category
   const allFindings: AuditFinding[] = report.modules.flatMap((m) => m.findings);
@@ -160,8 +273,8 @@ function escapeHtml(str: string): string {
     .replace(/"/g, '&quot;');
 }
 
-export function formatHtml(report: AuditReport): string {
-  const { errors, warnings, info, passed } = report.summary;
+function renderReportHtml(report: AuditReport): { overview: string; findings: string } {
+  const { errors, warnings, info, passed, suppressed = 0 } = report.summary;
 
   const allFindings: AuditFinding[] = report.modules.flatMap((m) => m.findings);
   const categories = new Map<string, AuditFinding[]>();
@@ -187,7 +300,9 @@ export function formatHtml(report: AuditReport): string {
       const items = findings
         .map((f) => {
           const icon = severityHtmlIcons[f.severity] ?? '';
-          let html = `<div class="finding" data-severity="${f.severity}">`;
+          let html = f.suppressed
+            ? `<div class="finding suppressed" data-severity="suppressed">`
+            : `<div class="finding" data-severity="${f.severity}">`;
           html += `<span class="finding-icon severity-${f.severity}">${icon}</span>`;
           html += `<div class="finding-content">`;
           html += `<strong>[${escapeHtml(f.severity.toUpperCase())}]</strong> ${escapeHtml(f.message)}`;
@@ -196,6 +311,9 @@ export function formatHtml(report: AuditReport): string {
           if (f.url) {
             html += `<div class="finding-url">URL: ${escapeHtml(f.url)}</div>`;
           }
+          if (f.suppressed) {
+            html += `<div class="finding-suppressed">Accepted: ${escapeHtml(formatSuppression(f))}</div>`;
+          }
           html += `</div></div>`;
           return html;
         })
@@ -204,21 +322,65 @@ export function formatHtml(report: AuditReport): string {
     }
   }
 
+  const failures = report.failures ?? [];
+  let failuresHtml = '';
+  if (failures.length > 0) {
+    const items = failures
+      .map((f) => {
+        let html = `<li><strong>${escapeHtml(f.module)}</strong>: ${escapeHtml(f.message)}`;
+        if (f.stack) {
+          html += `<pre>${escapeHtml(f.stack)}</pre>`;
+        }
+        return `${html}</li>`;
+      })
+      .join('\n');
+    failuresHtml = `<section class="failures"><h2>Module failures</h2><p>These modules threw an error, so their checks are missing from this report.</p><ul>${items}</ul></section>`;
+  }
+
   const summaryCards = [
     { label: 'Errors', count: errors, cls: 'error' },
     { label: 'Warnings', count: warnings, cls: 'warning' },
     { label: 'Info', count: info, cls: 'info' },
     { label: 'Passed', count: passed, cls: 'pass' },
+    ...(suppressed > 0 ? [{ label: 'Suppressed', count: suppressed, cls: 'suppressed' }] : []),
   ]
     .map((c) => `<div class="card severity-${c.cls}"><div class="card-count">${c.count}</div><div class="card-label">${c.label}</div></div>`)
     .join('\n');
 
+  let scoreHtml = '';
+  if (report.score) {
+    const scoreClass = (score: number) => (score >= 90 ? 'good' : score >= 50 ? 'fair' : 'poor');
+    const items = Object.entries(report.score.categories)
+      .map(([category, score]) => `<li><span>${escapeHtml(category)}</span><strong class="score-${scoreClass(score)}">${score}</strong></li>`)
+      .join('');
+    scoreHtml = `<section class="score"><div class="score-overall score-${scoreClass(report.score.overall)}">${report.score.overall}<span>/100</span></div><ul>${items}</ul></section>`;
+  }
+
+  const coverageHtml = report.summary.coverage ? `<p class="coverage">${escapeHtml(describeCoverage(report.summary.coverage))}</p>\n` : '';
+
+  return {
+    overview: `<section class="summary">${summaryCards}</section>\n${coverageHtml}${scoreHtml}\n${failuresHtml}`,
+    findings: findingsHtml,
+  };
+}
+
+function renderFiltersHtml(showSuppressed: boolean): string {
+  return `<div class="filters">
+<button class="filter-btn active" data-filter="all">All</button>
+<button class="filter-btn" data-filter="error">Errors</button>
+<button class="filter-btn" data-filter="warning">Warnings</button>
+<button class="filter-btn" data-filter="info">Info</button>
+<button class="filter-btn" data-filter="pass">Passed</button>${showSuppressed ? '\n<button class="filter-btn" data-filter="suppressed">Suppressed</button>' : ''}
+</div>`;
+}
+
+function renderHtmlPage(title: string, content: string): string {
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
 <meta charset="utf-8">
 <meta name="viewport" content="width=device-width, initial-scale=1">
-<title>SEO Audit Report — ${escapeHtml(report.url)}</title>
+<title>${escapeHtml(title)}</title>
 <style>
 *,*::before,*::after{box-sizing:border-box}
 body{font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,Helvetica,Arial,sans-serif;margin:0;padding:0;background:#f5f7fa;color:#1a1a2e}
@@ -234,6 +396,7 @@ h1{font-size:1.5rem;margin:0 0 8px}
 .card.severity-warning .card-count{color:#d97706}
 .card.severity-info .card-count{color:#2563eb}
 .card.severity-pass .card-count{color:#16a34a}
+.coverage{color:#6b7280;font-size:.875rem;margin:-16px 0 32px}
 .filters{margin-bottom:24px;display:flex;gap:8px;flex-wrap:wrap}
 .filter-btn{padding:6px 14px;border:1px solid #d1d5db;border-radius:6px;background:#fff;cursor:pointer;font-size:.875rem}
 .filter-btn.active{background:#1a1a2e;color:#fff;border-color:#1a1a2e}
@@ -250,24 +413,32 @@ h1{font-size:1.5rem;margin:0 0 8px}
 .finding-suggestion{color:#0369a1;margin-top:2px}
 .finding-url{color:#6b7280;font-size:.8rem;margin-top:2px}
 .no-issues{text-align:center;color:#16a34a;font-size:1.1rem;padding:32px}
+.failures{margin-bottom:32px;padding:16px;border-radius:8px;background:#fef2f2;border:1px solid #fecaca;color:#991b1b}
+.failures h2{font-size:1rem;margin:0 0 8px}
+.failures p{margin:0 0 8px;font-size:.875rem}
+.failures pre{white-space:pre-wrap;font-size:.75rem;color:#6b7280}
+.score{display:flex;gap:24px;align-items:center;margin-bottom:32px;padding:16px;border-radius:8px;background:#fff;border:1px solid #e5e7eb}
+.score-overall{font-size:2.5rem;font-weight:700}
+.score-overall span{font-size:1rem;color:#6b7280}
+.score ul{list-style:none;margin:0;padding:0;display:flex;flex-wrap:wrap;gap:8px 16px;font-size:.875rem}
+.score li{display:flex;gap:6px}
+.score-good{color:#16a34a}
+.score-fair{color:#d97706}
+.score-poor{color:#dc2626}
+.finding.suppressed{opacity:.55}
+.finding-suppressed{color:#6b7280;font-size:.8rem;font-style:italic;margin-top:2px}
+.sites-table{width:100%;border-collapse:collapse;margin-bottom:32px;background:#fff;border:1px solid #e5e7eb;border-radius:8px;font-size:.875rem}
+.sites-table th,.sites-table td{padding:8px 12px;text-align:left;border-top:1px solid #f0f0f0}
+.sites-table th{background:#fafafa;border-top:none}
+.site{margin-bottom:48px}
+.site h2{font-size:1.2rem;margin:0 0 4px}
+.site .meta{margin-bottom:16px}
 .finding.hidden{display:none}
 </style>
 </head>
 <body>
 <div class="container">
-<header>
-<h1>SEO Audit Report</h1>
-<div class="meta">URL: ${escapeHtml(report.url)} &mdash; ${escapeHtml(report.timestamp)} &mdash; ${report.duration}ms</div>
-</header>
-<section class="summary">${summaryCards}</section>
-<div class="filters">
-<button class="filter-btn active" data-filter="all">All</button>
-<button class="filter-btn" data-filter="error">Errors</button>
-<button class="filter-btn" data-filter="warning">Warnings</button>
-<button class="filter-btn" data-filter="info">Info</button>
-<button class="filter-btn" data-filter="pass">Passed</button>
-</div>
-<section class="findings">${findingsHtml}</section>
+${content}
 </div>
 <script>
 document.querySelectorAll('.filter-btn').forEach(function(btn){
@@ -289,6 +460,126 @@ document.querySelectorAll('.filter-btn').forEach(function(btn){
 </html>`;
 }
 
+export function formatHtml(report: AuditReport): string {
+  const { overview, findings } = renderReportHtml(report);
+  return renderHtmlPage(`SEO Audit Report — ${report.url}`, `<header>
+<h1>SEO Audit Report</h1>
+<div class="meta">URL: ${escapeHtml(report.url)} &mdash; ${escapeHtml(report.timestamp)} &mdash; ${report.duration}ms${escapeHtml(formatRequestStats(report))}</div>${report.skipped && report.skipped.length > 0 ? `\n<div class="meta">Skipped modules: ${escapeHtml(report.skipped.join(', '))}</div>` : ''}
+</header>
+${overview}
+${renderFiltersHtml((report.summary.suppressed ?? 0) > 0)}
+<section class="findings">${findings}</section>`);
+}
+
+function siteLabel(site: { url: string; report?: AuditReport }): string {
+  return site.report?.url ?? site.url;
+}
+
+export function formatSitesReport(report: MultiSiteReport, verbose: boolean): string {
+  const lines: string[] = [];
+
+  for (const site of report.sites) {
+    if (site.report) {
+      lines.push(formatReport(site.report, verbose));
+    } else {
+      lines.push('');
+      lines.push(chalk.red.bold(`✖ Audit failed for ${site.url}: ${site.error}`));
+    }
+  }
+
+  lines.push('');
+  lines.push(chalk.bold.underline(`Combined report for ${report.summary.sites} sites`));
+  lines.push(chalk.dim(`  Completed in ${report.duration}ms at ${report.timestamp}`));
+  lines.push('');
+
+  for (const site of report.sites) {
+    if (!site.report) {
+      lines.push(chalk.red(`  ✖ ${site.url} — audit failed`));
+      continue;
+    }
+    const { errors, warnings, info } = site.report.summary;
+    const icon = errors > 0 ? chalk.red('✖') : warnings > 0 ? chalk.yellow('⚠') : chalk.green('✔');
+    const score = site.report.score ? `  score ${scoreColor(site.report.score.overall)(String(site.report.score.overall))}` : '';
+    lines.push(`  ${icon} ${siteLabel(site)}${score}  ${chalk.red(`✖ ${errors}`)}  ${chalk.yellow(`⚠ ${warnings}`)}  ${chalk.blue(`ℹ ${info}`)}`);
+  }
+  lines.push('');
+
+  const { errors, warnings, info, passed, failed } = report.summary;
+  lines.push(chalk.bold('  Total:'));
+  if (failed > 0) lines.push(chalk.red(`    ✖ ${failed} site${failed !== 1 ? 's' : ''} could not be audited`));
+  if (errors > 0) lines.push(chalk.red(`    ✖ ${errors} error${errors !== 1 ? 's' : ''}`));
+  if (warnings > 0) lines.push(chalk.yellow(`    ⚠ ${warnings} warning${warnings !== 1 ? 's' : ''}`));
+  if (info > 0) lines.push(chalk.blue(`    ℹ ${info} info`));
+  if (passed > 0) lines.push(chalk.green(`    ✔ ${passed} passed`));
+
+  return lines.join('\n');
+}
+
+export function formatSitesMarkdown(report: MultiSiteReport): string {
+  const lines: string[] = [];
+
+  lines.push(`# SEO Audit Report for ${report.summary.sites} sites`);
+  lines.push('');
+  lines.push(`> Completed in ${report.duration}ms at ${report.timestamp}`);
+  lines.push('');
+  lines.push('## Overview');
+  lines.push('');
+  lines.push('| Site | Score | Errors | Warnings | Info | Passed |');
+  lines.push('|------|-------|--------|----------|------|--------|');
+  for (const site of report.sites) {
+    if (!site.report) {
+      lines.push(`| ${site.url} | ❌ Audit failed: ${site.error} | | | | |`);
+      continue;
+    }
+    const { errors, warnings, info, passed } = site.report.summary;
+    lines.push(`| ${siteLabel(site)} | ${site.report.score?.overall ?? '—'} | ${errors} | ${warnings} | ${info} | ${passed} |`);
+  }
+  const { errors, warnings, info, passed } = report.summary;
+  lines.push(`| **Total** | | **${errors}** | **${warnings}** | **${info}** | **${passed}** |`);
+  lines.push('');
+
+  // Nest each site's report one heading level below the overview
+  for (const site of report.sites) {
+    if (site.report) {
+      lines.push(formatMarkdown(site.report).replace(/^(#+) /gm, '#$1 '));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function formatSitesHtml(report: MultiSiteReport): string {
+  const rows = report.sites
+    .map((site, i) => {
+      if (!site.report) {
+        return `<tr><td>${escapeHtml(site.url)}</td><td colspan="5" class="severity-error">Audit failed: ${escapeHtml(site.error ?? '')}</td></tr>`;
+      }
+      const { errors, warnings, info, passed } = site.report.summary;
+      return `<tr><td><a href="#site-${i}">${escapeHtml(siteLabel(site))}</a></td><td>${site.report.score?.overall ?? '&mdash;'}</td><td>${errors}</td><td>${warnings}</td><td>${info}</td><td>${passed}</td></tr>`;
+    })
+    .join('\n');
+
+  const sections = report.sites
+    .map((site, i) => {
+      if (!site.report) return '';
+      const { overview, findings } = renderReportHtml(site.report);
+      return `<section class="site" id="site-${i}"><h2>${escapeHtml(site.report.url)}</h2><div class="meta">${escapeHtml(site.report.timestamp)} &mdash; ${site.report.duration}ms${escapeHtml(formatRequestStats(site.report))}</div>
+${overview}
+<section class="findings">${findings}</section></section>`;
+    })
+    .join('\n');
+
+  return renderHtmlPage(`SEO Audit Report — ${report.summary.sites} sites`, `<header>
+<h1>SEO Audit Report for ${report.summary.sites} sites</h1>
+<div class="meta">${escapeHtml(report.timestamp)} &mdash; ${report.duration}ms</div>
+</header>
+<table class="sites-table"><thead><tr><th>Site</th><th>Score</th><th>Errors</th><th>Warnings</th><th>Info</th><th>Passed</th></tr></thead><tbody>
+${rows}
+</tbody></table>
+${renderFiltersHtml((report.summary.suppressed ?? 0) > 0)}
+${sections}`);
+}
+
 export function formatDiff(diff: DiffResult): string {
   const lines: string[] = [];
 
@@ -325,3 +616,60 @@ export function formatDiff(diff: DiffResult): string {
 export function formatDiffJson(diff: DiffResult): string {
   return JSON.stringify(diff, null, 2);
 }
+
+function formatChangeValue(value: string | number | undefined): string {
+  if (value === undefined) return 'none';
+  return typeof value === 'number' ? String(value) : `"${value}"`;
+}
+
+export function formatComparison(result: ComparisonResult): string {
+  const lines: string[] = [];
+  const { newIssues, resolvedIssues } = result.findings;
+
+  // Group everything by path; site-wide findings have no path
+  const byPath = new Map<string, { added: AuditFinding[]; resolved: AuditFinding[]; changes: PageChange[] }>();
+  const entry = (path: string) => {
+    if (!byPath.has(path)) byPath.set(path, { added: [], resolved: [], changes: [] });
+    return byPath.get(path)!;
+  };
+  for (const f of newIssues) entry(findingPath(f, result)).added.push(f);
+  for (const f of resolvedIssues) entry(findingPath(f, result)).resolved.push(f);
+  for (const change of result.pages) entry(change.path).changes.push(change);
+
+  lines.push('');
+  lines.push(chalk.bold.underline(`Comparison of ${result.target} against ${result.base}`));
+  lines.push('');
+  lines.push(
+    `  ${chalk.red(`+ ${newIssues.length} new`)}  ` +
+    `${chalk.green(`- ${resolvedIssues.length} resolved`)}  ` +
+    `${chalk.yellow(`~ ${result.pages.length} page change${result.pages.length !== 1 ? 's' : ''}`)}`
+  );
+  lines.push('');
+
+  const paths = [...byPath.keys()].sort();
+  for (const path of paths) {
+    const { added, resolved, changes } = byPath.get(path)!;
+    lines.push(chalk.bold(`  ${path || '(site-wide)'}`));
+    for (const change of changes) {
+      lines.push(chalk.yellow(`    ~ ${change.field}: ${formatChangeValue(change.before)} → ${formatChangeValue(change.after)}`));
+    }
+    for (const f of added) {
+      lines.push(severityColors[f.severity](`    + [${f.severity.toUpperCase()}] ${f.message}`));
+    }
+    for (const f of resolved) {
+      lines.push(chalk.dim(`    - [${f.severity.toUpperCase()}] ${f.message}`));
+    }
+    lines.push('');
+  }
+
+  if (paths.length === 0) {
+    lines.push(chalk.green('  No differences found.'));
+  }
+
+  return lines.join('\n');
+}
+
+export function formatComparisonJson(result: ComparisonResult): string {
+  return JSON.stringify(result, null, 2);
+}
+
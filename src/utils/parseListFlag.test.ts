@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { parseListFlag } from './parseListFlag.js';
+
+describe('parseListFlag', () => {
+  it('splits a comma-separated list', () => {
+    expect(parseListFlag('--only', 'robots,sitemap')).toEqual(['robots', 'sitemap']);
+  });
+
+  it('trims whitespace and drops empty entries', () => {
+    expect(parseListFlag('--skip', ' images , ,security ')).toEqual(['images', 'security']);
+  });
+
+  it('throws when the list is empty', () => {
+    expect(() => parseListFlag('--only', ' , ')).toThrow('--only must contain at least one value');
+  });
+});
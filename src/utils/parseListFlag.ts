@@ -0,0 +1,7 @@
+export function parseListFlag(flag: string, input: string): string[] {
+  const items = input.split(',').map((s) => s.trim()).filter((s) => s.length > 0);
+  if (items.length === 0) {
+    throw new Error(`${flag} must contain at least one value`);
+  }
+  return items;
+}
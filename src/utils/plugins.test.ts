@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { AuditContext } from '../types.js';
+import { loadPlugins } from './plugins.js';
+
+let dir: string;
+
+function writePlugin(name: string, source: string): string {
+  writeFileSync(join(dir, name), source, 'utf-8');
+  return `./${name}`;
+}
+
+function makeCtx(): AuditContext {
+  return {
+    url: 'https://example.com',
+    normalizedUrl: 'https://example.com/',
+    fetchOptions: {},
+    verbose: false,
+  };
+}
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), 'seo-audit-plugins-'));
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('loadPlugins', () => {
+  it('loads modules from a local plugin file', async () => {
+    const spec = writePlugin('valid.mjs', `
+      export default {
+        name: 'acme',
+        modules: [{
+          name: 'acme-footer',
+          run: async (ctx) => [{
+            code: 'ACME_FOOTER_MISSING',
+            severity: 'warning',
+            category: 'acme',
+            message: 'Footer missing on ' + ctx.normalizedUrl,
+            explanation: 'exp',
+            suggestion: 'sug',
+          }],
+        }],
+      };
+    `);
+
+    const modules = await loadPlugins([spec], dir);
+    expect(modules).toHaveLength(1);
+    expect(modules[0].name).toBe('acme-footer');
+
+    const findings = await modules[0].run(makeCtx());
+    expect(findings[0].code).toBe('ACME_FOOTER_MISSING');
+    expect(findings[0].category).toBe('acme');
+    expect(findings[0].message).toContain('https://example.com/');
+  });
+
+  it('keeps the scheduling fields a module declares', async () => {
+    const spec = writePlugin('scheduled.mjs', `
+      export default {
+        name: 'acme',
+        modules: [{
+          name: 'acme-footer',
+          categories: ['acme'],
+          consumes: ['html'],
+          provides: ['footer'],
+          enabled: (ctx) => ctx.crawlLimit !== undefined,
+          run: async () => [],
+        }],
+      };
+    `);
+
+    const [mod] = await loadPlugins([spec], dir);
+    expect(Object.keys(mod).sort()).toEqual(['categories', 'consumes', 'enabled', 'name', 'provides', 'run']);
+    expect(mod).toMatchObject({ categories: ['acme'], consumes: ['html'], provides: ['footer'] });
+    expect(mod.enabled?.(makeCtx())).toBe(false);
+  });
+
+  it('throws when the plugin cannot be imported', async () => {
+    await expect(loadPlugins(['./missing.mjs'], dir)).rejects.toThrow('Error loading plugin "./missing.mjs"');
+  });
+
+  it('throws when the default export has no modules', async () => {
+    const spec = writePlugin('no-modules.mjs', `export default { name: 'empty', modules: [] };`);
+    await expect(loadPlugins([spec], dir)).rejects.toThrow('"modules" must be a non-empty array');
+  });
+
+  it('throws when a module has no run function', async () => {
+    const spec = writePlugin('no-run.mjs', `export default { name: 'broken', modules: [{ name: 'x' }] };`);
+    await expect(loadPlugins([spec], dir)).rejects.toThrow('each module must have a "name" string and a "run" function');
+  });
+
+  it('throws when there is no default export', async () => {
+    const spec = writePlugin('named.mjs', `export const modules = [];`);
+    await expect(loadPlugins([spec], dir)).rejects.toThrow('default export must be a plugin object');
+  });
+
+  it('rejects findings with an unknown severity when the module runs', async () => {
+    const spec = writePlugin('bad-findings.mjs', `
+      export default {
+        name: 'sloppy',
+        modules: [{ name: 'sloppy-check', run: async () => [{ code: 'X', severity: 'critical', category: 'x', message: 'm', explanation: 'e', suggestion: 's' }] }],
+      };
+    `);
+
+    const [mod] = await loadPlugins([spec], dir);
+    await expect(mod.run(makeCtx())).rejects.toThrow('Plugin "sloppy" module "sloppy-check" returned invalid findings');
+  });
+});
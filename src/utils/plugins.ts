@@ -0,0 +1,103 @@
+import { createRequire } from 'node:module';
+import { isAbsolute, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { AuditFinding, AuditModule, AuditPlugin, IssueSeverity } from '../types.js';
+
+const SEVERITIES: IssueSeverity[] = ['error', 'warning', 'info', 'pass'];
+
+function isLocalPath(specifier: string): boolean {
+  return specifier.startsWith('.') || isAbsolute(specifier);
+}
+
+function resolveSpecifier(specifier: string, cwd: string): string {
+  if (isLocalPath(specifier)) {
+    return pathToFileURL(resolve(cwd, specifier)).href;
+  }
+
+  // Resolve packages from the audited project, not from this tool's install location
+  try {
+    const require = createRequire(join(cwd, 'package.json'));
+    return pathToFileURL(require.resolve(specifier)).href;
+  } catch {
+    return specifier;
+  }
+}
+
+function isAuditFinding(value: unknown): value is AuditFinding {
+  if (typeof value !== 'object' || value === null) return false;
+  const f = value as Record<string, unknown>;
+  return (
+    typeof f.code === 'string' &&
+    typeof f.category === 'string' &&
+    typeof f.message === 'string' &&
+    typeof f.explanation === 'string' &&
+    typeof f.suggestion === 'string' &&
+    SEVERITIES.includes(f.severity as IssueSeverity)
+  );
+}
+
+function validatePlugin(specifier: string, exported: unknown): AuditPlugin {
+  const fail = (reason: string): never => {
+    throw new Error(`Error loading plugin "${specifier}": ${reason}`);
+  };
+
+  if (typeof exported !== 'object' || exported === null) {
+    fail('default export must be a plugin object');
+  }
+  const plugin = exported as Record<string, unknown>;
+  if (typeof plugin.name !== 'string' || plugin.name === '') {
+    fail('"name" must be a non-empty string');
+  }
+  if (!Array.isArray(plugin.modules) || plugin.modules.length === 0) {
+    fail('"modules" must be a non-empty array');
+  }
+  for (const mod of plugin.modules as unknown[]) {
+    const m = mod as Record<string, unknown> | null;
+    if (!m || typeof m.name !== 'string' || m.name === '' || typeof m.run !== 'function') {
+      fail('each module must have a "name" string and a "run" function');
+    }
+  }
+
+  return exported as AuditPlugin;
+}
+
+/**
+ * Wrap a plugin module so malformed findings fail the module instead of
+ * breaking the formatters further down the line. Scheduling fields
+ * (`consumes`, `provides`, `enabled`, `categories`) are kept as declared.
+ */
+function guardModule(pluginName: string, mod: AuditModule): AuditModule {
+  return {
+    ...mod,
+    run: async (ctx) => {
+      const findings = await mod.run(ctx);
+      if (!Array.isArray(findings) || !findings.every(isAuditFinding)) {
+        throw new Error(`Plugin "${pluginName}" module "${mod.name}" returned invalid findings`);
+      }
+      return findings;
+    },
+  };
+}
+
+export async function loadPlugins(
+  specifiers: string[],
+  cwd: string = process.cwd(),
+): Promise<AuditModule[]> {
+  const modules: AuditModule[] = [];
+
+  for (const specifier of specifiers) {
+    let imported: { default?: unknown };
+    try {
+      imported = await import(resolveSpecifier(specifier, cwd));
+    } catch (err) {
+      throw new Error(
+        `Error loading plugin "${specifier}": ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+
+    const plugin = validatePlugin(specifier, imported.default);
+    modules.push(...plugin.modules.map((mod) => guardModule(plugin.name, mod)));
+  }
+
+  return modules;
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from './pool.js';
+
+function tick(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 1));
+}
+
+describe('mapWithConcurrency', () => {
+  it('keeps results in input order', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 2, async (n) => {
+      await new Promise((resolve) => setTimeout(resolve, n));
+      return n * 2;
+    });
+    expect(results).toEqual([60, 20, 40]);
+  });
+
+  it('never runs more than the limit at once', async () => {
+    let active = 0;
+    let peak = 0;
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await tick();
+      active--;
+    });
+    expect(peak).toBe(2);
+  });
+
+  it('handles an empty list', async () => {
+    expect(await mapWithConcurrency([], 3, async (n: number) => n)).toEqual([]);
+  });
+
+  it('rejects when a call rejects', async () => {
+    await expect(mapWithConcurrency([1, 2], 2, async (n) => {
+      if (n === 2) throw new Error('boom');
+      return n;
+    })).rejects.toThrow('boom');
+  });
+});
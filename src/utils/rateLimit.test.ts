@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createRateLimiter } from './rateLimit.js';
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe('createRateLimiter', () => {
+  it('spaces request starts by the requests-per-second limit', async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 2 });
+    const starts: number[] = [];
+    const t0 = Date.now();
+    const run = () => limiter.schedule('example.com', async () => { starts.push(Date.now() - t0); });
+
+    const all = Promise.all([run(), run(), run()]);
+    await vi.runAllTimersAsync();
+    await all;
+    expect(starts).toEqual([0, 500, 1000]);
+  });
+
+  it('limits requests in flight per host', async () => {
+    const limiter = createRateLimiter({ hostConcurrency: 1 });
+    const first = deferred();
+    const order: string[] = [];
+
+    const a = limiter.schedule('example.com', async () => { order.push('a'); await first.promise; });
+    const b = limiter.schedule('example.com', async () => { order.push('b'); });
+    const other = limiter.schedule('cdn.example.com', async () => { order.push('cdn'); });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(order).toEqual(['a', 'cdn']);
+
+    first.resolve();
+    await Promise.all([a, b, other]);
+    expect(order).toEqual(['a', 'cdn', 'b']);
+  });
+
+  it('uses the crawl delay when it is slower than the rate limit', async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 10 });
+    limiter.setCrawlDelay('example.com', 2);
+    const starts: number[] = [];
+    const t0 = Date.now();
+    const run = () => limiter.schedule('example.com', async () => { starts.push(Date.now() - t0); });
+
+    const all = Promise.all([run(), run()]);
+    await vi.runAllTimersAsync();
+    await all;
+    expect(starts).toEqual([0, 2000]);
+  });
+
+  it('releases the slot when a request fails', async () => {
+    const limiter = createRateLimiter({ hostConcurrency: 1 });
+    await expect(limiter.schedule('example.com', async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(limiter.schedule('example.com', async () => 'ok')).resolves.toBe('ok');
+  });
+});
@@ -0,0 +1,73 @@
+import type { RateLimiter } from '../types.js';
+
+export interface RateLimitOptions {
+  /** Maximum requests per second to each host */
+  requestsPerSecond?: number;
+  /** Maximum requests in flight to each host */
+  hostConcurrency?: number;
+}
+
+interface HostState {
+  active: number;
+  nextStart: number;
+  crawlDelay: number;
+  queue: (() => void)[];
+}
+
+/**
+ * Per-host pacing for the HTTP layer. Each host gets its own queue, so a
+ * slow site doesn't hold back requests to image CDNs or external links.
+ */
+export function createRateLimiter(opts: RateLimitOptions = {}): RateLimiter {
+  const hosts = new Map<string, HostState>();
+  const baseInterval = opts.requestsPerSecond ? 1000 / opts.requestsPerSecond : 0;
+  const concurrency = opts.hostConcurrency ?? Infinity;
+
+  function state(host: string): HostState {
+    let s = hosts.get(host);
+    if (!s) {
+      s = { active: 0, nextStart: 0, crawlDelay: 0, queue: [] };
+      hosts.set(host, s);
+    }
+    return s;
+  }
+
+  function acquire(s: HostState): Promise<void> {
+    return new Promise((resolve) => {
+      s.queue.push(resolve);
+      drain(s);
+    });
+  }
+
+  function drain(s: HostState): void {
+    while (s.queue.length > 0 && s.active < concurrency) {
+      const interval = Math.max(baseInterval, s.crawlDelay * 1000);
+      const now = Date.now();
+      const start = Math.max(now, s.nextStart);
+      s.nextStart = start + interval;
+      s.active++;
+      const release = s.queue.shift()!;
+      if (start > now) {
+        setTimeout(release, start - now);
+      } else {
+        release();
+      }
+    }
+  }
+
+  return {
+    async schedule(host, fn) {
+      const s = state(host);
+      await acquire(s);
+      try {
+        return await fn();
+      } finally {
+        s.active--;
+        drain(s);
+      }
+    },
+    setCrawlDelay(host, seconds) {
+      state(host).crawlDelay = seconds;
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { buildRequestHeaders, expandEnv, parseCookieFlag, parseHeaderFlag } from './requestHeaders.js';
+
+describe('expandEnv', () => {
+  it('replaces ${VAR} references', () => {
+    expect(expandEnv('Bearer ${TOKEN}', { TOKEN: 'abc' })).toBe('Bearer abc');
+  });
+
+  it('leaves values without references untouched', () => {
+    expect(expandEnv('plain $TOKEN', {})).toBe('plain $TOKEN');
+  });
+
+  it('throws when a variable is not set', () => {
+    expect(() => expandEnv('${MISSING}', {})).toThrow('Environment variable "MISSING" is not set');
+  });
+});
+
+describe('parseHeaderFlag', () => {
+  it('splits on the first colon', () => {
+    expect(parseHeaderFlag('x-vercel-protection-bypass: a:b')).toEqual(['x-vercel-protection-bypass', 'a:b']);
+  });
+
+  it('throws without a name', () => {
+    expect(() => parseHeaderFlag('no-colon')).toThrow('--header must look like "Name: value"');
+    expect(() => parseHeaderFlag(': value')).toThrow('--header must look like "Name: value"');
+  });
+});
+
+describe('parseCookieFlag', () => {
+  it('splits on the first equals sign', () => {
+    expect(parseCookieFlag('session=a=b')).toEqual(['session', 'a=b']);
+  });
+
+  it('throws without a name', () => {
+    expect(() => parseCookieFlag('session')).toThrow('--cookie must look like "name=value"');
+  });
+});
+
+describe('buildRequestHeaders', () => {
+  it('returns no headers for empty credentials', () => {
+    expect(buildRequestHeaders({})).toEqual({});
+  });
+
+  it('combines headers, cookies and basic auth with env expansion', () => {
+    const headers = buildRequestHeaders(
+      {
+        headers: { 'x-vercel-protection-bypass': '${BYPASS}' },
+        cookies: { session: 'abc', theme: 'dark' },
+        basicAuth: 'staging:${STAGING_PASSWORD}',
+      },
+      { BYPASS: 'secret', STAGING_PASSWORD: 'hunter2' },
+    );
+
+    expect(headers).toEqual({
+      'x-vercel-protection-bypass': 'secret',
+      Cookie: 'session=abc; theme=dark',
+      Authorization: `Basic ${Buffer.from('staging:hunter2').toString('base64')}`,
+    });
+  });
+});
@@ -0,0 +1,62 @@
+export interface RequestCredentials {
+  headers?: Record<string, string>;
+  cookies?: Record<string, string>;
+  /** "user:password" */
+  basicAuth?: string;
+}
+
+/** Replace `${VAR}` references with environment variables, failing on unset ones. */
+export function expandEnv(value: string, env: NodeJS.ProcessEnv = process.env): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => {
+    const resolved = env[name];
+    if (resolved === undefined) {
+      throw new Error(`Environment variable "${name}" is not set`);
+    }
+    return resolved;
+  });
+}
+
+/** Parse a `--header "Name: value"` flag. */
+export function parseHeaderFlag(input: string): [string, string] {
+  const idx = input.indexOf(':');
+  const name = idx === -1 ? '' : input.slice(0, idx).trim();
+  if (!name) {
+    throw new Error(`--header must look like "Name: value", got "${input}"`);
+  }
+  return [name, input.slice(idx + 1).trim()];
+}
+
+/** Parse a `--cookie "name=value"` flag. */
+export function parseCookieFlag(input: string): [string, string] {
+  const idx = input.indexOf('=');
+  const name = idx === -1 ? '' : input.slice(0, idx).trim();
+  if (!name) {
+    throw new Error(`--cookie must look like "name=value", got "${input}"`);
+  }
+  return [name, input.slice(idx + 1).trim()];
+}
+
+/**
+ * Turn headers, cookies and basic auth into request headers, expanding
+ * `${VAR}` references so secrets can stay in the environment.
+ */
+export function buildRequestHeaders(
+  credentials: RequestCredentials,
+  env: NodeJS.ProcessEnv = process.env,
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(credentials.headers ?? {})) {
+    headers[name] = expandEnv(value, env);
+  }
+
+  const cookies = Object.entries(credentials.cookies ?? {});
+  if (cookies.length > 0) {
+    headers.Cookie = cookies.map(([name, value]) => `${name}=${expandEnv(value, env)}`).join('; ');
+  }
+
+  if (credentials.basicAuth) {
+    headers.Authorization = `Basic ${Buffer.from(expandEnv(credentials.basicAuth, env)).toString('base64')}`;
+  }
+
+  return headers;
+}
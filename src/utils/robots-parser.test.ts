@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { isAllowed, parseRobotsTxt, selectRobotsRule } from './robots-parser.js';
+
+describe('parseRobotsTxt', () => {
+  it('parses rules, sitemaps and crawl delays', () => {
+    const { rules, sitemaps } = parseRobotsTxt([
+      'User-agent: *',
+      'Disallow: /admin # private',
+      'Allow: /admin/public',
+      'Crawl-delay: 2',
+      '',
+      'Sitemap: https://example.com/sitemap.xml',
+    ].join('\n'));
+    expect(rules).toEqual([{ userAgent: '*', disallow: ['/admin'], allow: ['/admin/public'], crawlDelay: 2 }]);
+    expect(sitemaps).toEqual(['https://example.com/sitemap.xml']);
+  });
+
+  it('shares directives between consecutive user agents', () => {
+    const { rules } = parseRobotsTxt('User-agent: bingbot\nUser-agent: yandex\nDisallow: /search\nCrawl-delay: 5\nUser-agent: *\nDisallow:');
+    expect(rules.map((r) => [r.userAgent, r.disallow, r.crawlDelay])).toEqual([
+      ['bingbot', ['/search'], 5],
+      ['yandex', ['/search'], 5],
+      ['*', [], undefined],
+    ]);
+  });
+
+  it('ignores invalid crawl delays', () => {
+    const { rules } = parseRobotsTxt('User-agent: *\nCrawl-delay: soon');
+    expect(rules[0].crawlDelay).toBeUndefined();
+  });
+});
+
+describe('selectRobotsRule', () => {
+  const { rules } = parseRobotsTxt('User-agent: Googlebot\nCrawl-delay: 1\nUser-agent: Googlebot-Image\nCrawl-delay: 3\nUser-agent: *\nCrawl-delay: 10');
+
+  it('picks the most specific matching group', () => {
+    expect(selectRobotsRule(rules, 'Googlebot-Image/1.0')?.crawlDelay).toBe(3);
+    expect(selectRobotsRule(rules, 'Mozilla/5.0 (compatible; Googlebot/2.1)')?.crawlDelay).toBe(1);
+  });
+
+  it('falls back to the wildcard group', () => {
+    expect(selectRobotsRule(rules, 'vercel-seo-audit/2.4.0')?.userAgent).toBe('*');
+    expect(selectRobotsRule([], 'anything')).toBeUndefined();
+  });
+});
+
+describe('isAllowed', () => {
+  const rule = { userAgent: '*', disallow: ['/admin', '/*.pdf$', '/*?sort='], allow: ['/admin/public'] };
+
+  it('allows everything without a rule', () => {
+    expect(isAllowed(undefined, '/admin')).toBe(true);
+  });
+
+  it('blocks paths under a disallowed prefix', () => {
+    expect(isAllowed(rule, '/admin')).toBe(false);
+    expect(isAllowed(rule, '/admin/users')).toBe(false);
+    expect(isAllowed(rule, '/about')).toBe(true);
+  });
+
+  it('lets the longest matching pattern win', () => {
+    expect(isAllowed(rule, '/admin/public/page')).toBe(true);
+    expect(isAllowed({ ...rule, allow: ['/adm'] }, '/admin')).toBe(false);
+    expect(isAllowed({ userAgent: '*', disallow: ['/page'], allow: ['/page'] }, '/page')).toBe(true);
+  });
+
+  it('supports * wildcards and $ anchors', () => {
+    expect(isAllowed(rule, '/files/guide.pdf')).toBe(false);
+    expect(isAllowed(rule, '/files/guide.pdf?v=2')).toBe(true);
+    expect(isAllowed(rule, '/shop?sort=price')).toBe(false);
+    expect(isAllowed(rule, '/shop?page=2')).toBe(true);
+  });
+});
@@ -0,0 +1,95 @@
+export interface RobotsRule {
+  userAgent: string;
+  disallow: string[];
+  allow: string[];
+  /** Seconds between requests, from a Crawl-delay line */
+  crawlDelay?: number;
+}
+
+export interface ParsedRobotsTxt {
+  rules: RobotsRule[];
+  sitemaps: string[];
+}
+
+/**
+ * Parses robots.txt into one rule per User-agent line. Consecutive
+ * User-agent lines form a group and share its directives.
+ */
+export function parseRobotsTxt(txt: string): ParsedRobotsTxt {
+  const lines = txt.split('\n').map((l) => l.trim());
+  const rules: RobotsRule[] = [];
+  const sitemaps: string[] = [];
+  let group: RobotsRule[] = [];
+  let inUserAgents = false;
+
+  for (const line of lines) {
+    if (line.startsWith('#') || line === '') continue;
+
+    const [key, ...rest] = line.split(':');
+    const value = rest.join(':').replace(/\s#.*$/, '').trim();
+    const keyLower = key.toLowerCase().trim();
+
+    if (keyLower === 'user-agent') {
+      const rule: RobotsRule = inUserAgents && group.length > 0
+        ? { ...group[0], userAgent: value }
+        : { userAgent: value, disallow: [], allow: [] };
+      group = inUserAgents ? [...group, rule] : [rule];
+      rules.push(rule);
+      inUserAgents = true;
+      continue;
+    }
+
+    inUserAgents = false;
+    if (keyLower === 'disallow' && group.length > 0) {
+      if (value) group[0].disallow.push(value);
+    } else if (keyLower === 'allow' && group.length > 0) {
+      if (value) group[0].allow.push(value);
+    } else if (keyLower === 'crawl-delay' && group.length > 0) {
+      const delay = Number(value);
+      if (value !== '' && isFinite(delay) && delay >= 0) {
+        for (const rule of group) rule.crawlDelay = delay;
+      }
+    } else if (keyLower === 'sitemap') {
+      if (value) sitemaps.push(value);
+    }
+  }
+
+  return { rules, sitemaps };
+}
+
+/**
+ * Picks the rule that applies to a User-Agent string: the group with the
+ * longest product token contained in it (so "Googlebot-Image" beats
+ * "Googlebot"), falling back to "*".
+ */
+export function selectRobotsRule(rules: RobotsRule[], userAgent: string): RobotsRule | undefined {
+  const ua = userAgent.toLowerCase();
+  let best: RobotsRule | undefined;
+  for (const rule of rules) {
+    const token = rule.userAgent.toLowerCase();
+    if (token !== '*' && ua.includes(token) && token.length > (best?.userAgent.length ?? 0)) {
+      best = rule;
+    }
+  }
+  return best ?? rules.find((rule) => rule.userAgent === '*');
+}
+
+function matchesPath(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Whether a rule lets a crawler fetch a path (including the query string).
+ * As with Google, the longest matching pattern wins and Allow wins a tie;
+ * `*` matches any characters and a trailing `$` anchors the end.
+ */
+export function isAllowed(rule: RobotsRule | undefined, path: string): boolean {
+  if (!rule) return true;
+  const longest = (patterns: string[]) =>
+    Math.max(-1, ...patterns.filter((p) => matchesPath(p, path)).map((p) => p.length));
+  const disallow = longest(rule.disallow);
+  return disallow < 0 || longest(rule.allow) >= disallow;
+}
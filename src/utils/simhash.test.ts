@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { getWords, simhash, similarity } from './simhash.js';
+
+const ARTICLE = Array.from({ length: 60 }, (_, i) => `sentence ${i} talks about widgets and how they are made in factory ${i % 7}.`).join(' ');
+
+describe('getWords', () => {
+  it('splits text into lowercase words, ignoring punctuation', () => {
+    expect(getWords('Hello, World! Größe 42')).toEqual(['hello', 'world', 'größe', '42']);
+    expect(getWords(' … ')).toEqual([]);
+  });
+});
+
+describe('simhash', () => {
+  it('returns 16 hex digits and is stable', () => {
+    expect(simhash(ARTICLE)).toMatch(/^[0-9a-f]{16}$/);
+    expect(simhash(ARTICLE)).toBe(simhash(ARTICLE));
+  });
+
+  it('ignores case, punctuation and spacing', () => {
+    expect(simhash('The quick brown fox, jumps!')).toBe(simhash('the  QUICK brown fox jumps'));
+  });
+});
+
+describe('similarity', () => {
+  it('is 1 for identical fingerprints and 0 for opposite ones', () => {
+    expect(similarity('00000000000000ff', '00000000000000ff')).toBe(1);
+    expect(similarity('0000000000000000', 'ffffffffffffffff')).toBe(0);
+    expect(similarity('0000000000000000', '000000000000000f')).toBe(1 - 4 / 64);
+  });
+
+  it('scores a lightly edited text above 0.9 and an unrelated one well below', () => {
+    const edited = ARTICLE.replace('sentence 12', 'paragraph twelve').replace('factory 3.', 'plant 3.');
+    const unrelated = Array.from({ length: 60 }, (_, i) => `recipe ${i} needs flour, eggs and ${i} grams of sugar.`).join(' ');
+    expect(similarity(simhash(ARTICLE), simhash(edited))).toBeGreaterThanOrEqual(0.9);
+    expect(similarity(simhash(ARTICLE), simhash(unrelated))).toBeLessThan(0.8);
+  });
+});
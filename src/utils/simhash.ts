@@ -0,0 +1,52 @@
+const FNV_OFFSET = 0xcbf29ce484222325n;
+const FNV_PRIME = 0x100000001b3n;
+const MASK = (1n << 64n) - 1n;
+
+/** Words per shingle; three keeps word order without being thrown off by single edits */
+const SHINGLE_SIZE = 3;
+
+function fnv1a64(text: string): bigint {
+  let hash = FNV_OFFSET;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= BigInt(text.charCodeAt(i));
+    hash = (hash * FNV_PRIME) & MASK;
+  }
+  return hash;
+}
+
+export function getWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * 64-bit SimHash of the text's word shingles, as 16 hex digits. Similar
+ * texts get fingerprints that differ in few bits.
+ */
+export function simhash(text: string): string {
+  const words = getWords(text);
+  const counts = new Array<number>(64).fill(0);
+  const shingles = Math.max(1, words.length - SHINGLE_SIZE + 1);
+  for (let i = 0; i < shingles; i++) {
+    const hash = fnv1a64(words.slice(i, i + SHINGLE_SIZE).join(' '));
+    for (let bit = 0; bit < 64; bit++) {
+      counts[bit] += (hash >> BigInt(bit)) & 1n ? 1 : -1;
+    }
+  }
+
+  let fingerprint = 0n;
+  for (let bit = 0; bit < 64; bit++) {
+    if (counts[bit] > 0) fingerprint |= 1n << BigInt(bit);
+  }
+  return fingerprint.toString(16).padStart(16, '0');
+}
+
+/** Share of matching bits between two fingerprints, from 0 to 1 */
+export function similarity(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let distance = 0;
+  while (diff > 0n) {
+    distance += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return 1 - distance / 64;
+}
@@ -0,0 +1,16 @@
+import type { PageSnapshot } from '../types.js';
+import { getCanonicalUrl, getRobotsDirectives, getTitle } from './html-parser.js';
+
+export function takeSnapshot(url: string, status?: number, html?: string, headers?: Headers): PageSnapshot {
+  const snapshot: PageSnapshot = { url };
+  if (status !== undefined) snapshot.status = status;
+  if (!html) return snapshot;
+
+  const title = getTitle(html);
+  const canonical = getCanonicalUrl(html);
+  const robots = [getRobotsDirectives(html), headers?.get('x-robots-tag')].filter(Boolean).join(', ');
+  if (title) snapshot.title = title;
+  if (canonical) snapshot.canonical = canonical;
+  if (robots) snapshot.robots = robots;
+  return snapshot;
+}
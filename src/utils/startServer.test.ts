@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { once } from 'node:events';
+import { createServer as createHttpServer } from 'node:http';
+import { createServer } from 'node:net';
+import { startServer } from './startServer.js';
+
+function freePort(): Promise<number> {
+  return new Promise((resolve) => {
+    const probe = createServer();
+    probe.listen(0, '127.0.0.1', () => {
+      const address = probe.address();
+      probe.close(() => resolve(typeof address === 'object' && address ? address.port : 0));
+    });
+  });
+}
+
+function node(script: string): string {
+  return `"${process.execPath}" -e "${script}"`;
+}
+
+describe('startServer', () => {
+  it('waits for the ready URL and stops the server', async () => {
+    const port = await freePort();
+    const url = `http://127.0.0.1:${port}/`;
+    const server = await startServer(
+      node(`setTimeout(() => require('http').createServer((q, r) => r.end('ok')).listen(${port}, '127.0.0.1'), 300)`),
+      { readyUrl: url, timeout: 10_000, interval: 50 },
+    );
+
+    expect(await (await fetch(url)).text()).toBe('ok');
+    await server.stop();
+    await expect(fetch(url)).rejects.toThrow();
+  });
+
+  it('fails with the command output when it exits before becoming ready', async () => {
+    const port = await freePort();
+    await expect(
+      startServer(node(`console.error('port in use'); process.exit(1)`), {
+        readyUrl: `http://127.0.0.1:${port}/`,
+        timeout: 10_000,
+        interval: 50,
+      }),
+    ).rejects.toThrow(/exited with 1 before .* was ready\nport in use/);
+  });
+
+  it('refuses to start when something already answers at the ready URL', async () => {
+    const port = await freePort();
+    const url = `http://127.0.0.1:${port}/`;
+    const other = createHttpServer((req, res) => res.end('other')).listen(port, '127.0.0.1');
+    await once(other, 'listening');
+    try {
+      await expect(
+        startServer(node('setInterval(() => {}, 1000)'), { readyUrl: url, timeout: 10_000, interval: 50 }),
+      ).rejects.toThrow(`${url} already answers before`);
+    } finally {
+      other.close();
+    }
+  });
+
+  it('times out and stops a server that never answers', async () => {
+    const port = await freePort();
+    await expect(
+      startServer(node('setInterval(() => {}, 1000)'), {
+        readyUrl: `http://127.0.0.1:${port}/`,
+        timeout: 500,
+        interval: 50,
+      }),
+    ).rejects.toThrow('Timed out after 500ms waiting for');
+  });
+});
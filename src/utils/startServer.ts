@@ -0,0 +1,123 @@
+import { spawn } from 'node:child_process';
+import type { ChildProcess } from 'node:child_process';
+
+export interface StartServerOptions {
+  /** URL polled until the server answers */
+  readyUrl: string;
+  /** How long to wait for `readyUrl`, in milliseconds */
+  timeout: number;
+  /** Delay between readiness checks, in milliseconds */
+  interval?: number;
+}
+
+export interface LocalServer {
+  stop(): Promise<void>;
+}
+
+const OUTPUT_TAIL_LINES = 20;
+const STOP_GRACE_PERIOD = 5_000;
+const PORT_CHECK_TIMEOUT = 1_000;
+
+function signal(child: ChildProcess, sig: NodeJS.Signals): void {
+  if (child.exitCode !== null || child.signalCode !== null || !child.pid) return;
+  try {
+    // The shell runs in its own process group so the server it spawns
+    // (e.g. `next start` under npm) is stopped with it
+    if (process.platform === 'win32') {
+      child.kill(sig);
+    } else {
+      process.kill(-child.pid, sig);
+    }
+  } catch {
+    // Already gone
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+async function answers(url: string, timeout: number): Promise<boolean> {
+  try {
+    const res = await fetch(url, { redirect: 'manual', signal: AbortSignal.timeout(Math.max(1, timeout)) });
+    await res.body?.cancel();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Runs a shell command (e.g. `next start -p 4000`) and resolves once
+ * `readyUrl` answers with any HTTP response. The command is stopped if it
+ * never becomes ready and, as a last resort, when this process exits.
+ */
+export async function startServer(command: string, opts: StartServerOptions): Promise<LocalServer> {
+  // The command would fail to listen while the audit ran against whatever holds the port
+  if (await answers(opts.readyUrl, Math.min(opts.timeout, PORT_CHECK_TIMEOUT))) {
+    throw new Error(`${opts.readyUrl} already answers before "${command}" was started; stop the server using that port or pick another one`);
+  }
+
+  const child = spawn(command, {
+    shell: true,
+    detached: process.platform !== 'win32',
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  // Keep the last lines of output to explain a server that fails to start
+  const output: string[] = [];
+  const capture = (chunk: Buffer) => {
+    output.push(...chunk.toString().split('\n').filter((line) => line.trim() !== ''));
+    output.splice(0, Math.max(0, output.length - OUTPUT_TAIL_LINES));
+  };
+  child.stdout?.on('data', capture);
+  child.stderr?.on('data', capture);
+
+  let spawnError: Error | undefined;
+  const exited = new Promise<void>((resolve) => {
+    child.once('exit', () => resolve());
+    // A command that cannot be spawned never emits 'exit'
+    child.once('error', (err) => {
+      spawnError = err;
+      resolve();
+    });
+  });
+
+  const killOnExit = () => signal(child, 'SIGKILL');
+  const interrupt = () => process.exit(130);
+  process.once('exit', killOnExit);
+  process.once('SIGINT', interrupt);
+  process.once('SIGTERM', interrupt);
+
+  const stop = async () => {
+    signal(child, 'SIGTERM');
+    const timer = setTimeout(() => signal(child, 'SIGKILL'), STOP_GRACE_PERIOD);
+    await exited;
+    clearTimeout(timer);
+    process.off('exit', killOnExit);
+    process.off('SIGINT', interrupt);
+    process.off('SIGTERM', interrupt);
+  };
+
+  const describeOutput = () => (output.length > 0 ? `\n${output.join('\n')}` : '');
+  const deadline = Date.now() + opts.timeout;
+  while (Date.now() < deadline) {
+    if (spawnError) {
+      await stop();
+      throw new Error(`Could not run "${command}": ${spawnError.message}`);
+    }
+    if (child.exitCode !== null || child.signalCode !== null) {
+      await stop();
+      throw new Error(`"${command}" exited with ${child.exitCode ?? child.signalCode} before ${opts.readyUrl} was ready${describeOutput()}`);
+    }
+    if (await answers(opts.readyUrl, deadline - Date.now())) {
+      // An answer from a command that has exited came from some other server; report the exit above
+      if (child.exitCode === null && child.signalCode === null) return { stop };
+      continue;
+    }
+    await sleep(opts.interval ?? 250);
+  }
+
+  await stop();
+  throw new Error(`Timed out after ${opts.timeout}ms waiting for ${opts.readyUrl}${describeOutput()}`);
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { candidateFiles, redirectTarget, startStaticServer } from './staticServer.js';
+import type { StaticServer } from './staticServer.js';
+
+describe('redirectTarget', () => {
+  it('strips .html and index with cleanUrls', () => {
+    expect(redirectTarget('/about.html', { cleanUrls: true })).toBe('/about');
+    expect(redirectTarget('/index.html', { cleanUrls: true })).toBe('/');
+    expect(redirectTarget('/blog/index.html', { cleanUrls: true, trailingSlash: true })).toBe('/blog/');
+    expect(redirectTarget('/about.html', { cleanUrls: false })).toBeUndefined();
+  });
+
+  it('adds or removes the trailing slash', () => {
+    expect(redirectTarget('/about', { trailingSlash: true })).toBe('/about/');
+    expect(redirectTarget('/about/', { trailingSlash: false })).toBe('/about');
+    expect(redirectTarget('/', { trailingSlash: false })).toBeUndefined();
+    expect(redirectTarget('/robots.txt', { trailingSlash: true })).toBeUndefined();
+  });
+});
+
+describe('candidateFiles', () => {
+  it('looks up clean URLs as .html files and directory indexes', () => {
+    expect(candidateFiles('/')).toEqual(['/index.html']);
+    expect(candidateFiles('/about')).toEqual(['/about', '/about.html', '/about/index.html']);
+    expect(candidateFiles('/about/')).toEqual(['/about/index.html', '/about.html']);
+  });
+});
+
+describe('startStaticServer', () => {
+  let dir: string;
+  let server: StaticServer;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'seo-static-'));
+    writeFileSync(join(dir, 'index.html'), '<title>Home</title>');
+    writeFileSync(join(dir, 'about.html'), '<title>About</title>');
+    writeFileSync(join(dir, '404.html'), '<title>Missing</title>');
+    writeFileSync(join(dir, 'robots.txt'), 'User-agent: *');
+    mkdirSync(join(dir, 'blog'));
+    writeFileSync(join(dir, 'blog', 'index.html'), '<title>Blog</title>');
+    server = await startStaticServer(dir, { cleanUrls: true, trailingSlash: false });
+  });
+
+  afterAll(async () => {
+    await server.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('serves files with a content type', async () => {
+    const res = await fetch(`${server.url}/robots.txt`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toContain('text/plain');
+    expect(await res.text()).toBe('User-agent: *');
+  });
+
+  it('serves clean URLs and directory indexes', async () => {
+    expect(await (await fetch(`${server.url}/about`)).text()).toBe('<title>About</title>');
+    expect(await (await fetch(`${server.url}/blog`)).text()).toBe('<title>Blog</title>');
+  });
+
+  it('redirects with 308 and keeps the query string', async () => {
+    const res = await fetch(`${server.url}/about.html?ref=x`, { redirect: 'manual' });
+    expect(res.status).toBe(308);
+    expect(res.headers.get('location')).toBe('/about?ref=x');
+  });
+
+  it('falls back to 404.html', async () => {
+    const res = await fetch(`${server.url}/nope`);
+    expect(res.status).toBe(404);
+    expect(await res.text()).toBe('<title>Missing</title>');
+  });
+
+  it('does not serve files outside the directory', async () => {
+    const res = await fetch(`${server.url}/..%2F..%2Fetc%2Fpasswd`);
+    expect(res.status).toBe(404);
+  });
+
+  it('rejects a missing directory', async () => {
+    await expect(startStaticServer(join(dir, 'missing'))).rejects.toThrow('Directory not found');
+  });
+});
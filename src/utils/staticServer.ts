@@ -0,0 +1,167 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { readFile, stat } from 'node:fs/promises';
+import { extname, join, resolve, sep } from 'node:path';
+
+export interface StaticServerOptions {
+  /** true redirects /about to /about/, false redirects /about/ to /about */
+  trailingSlash?: boolean;
+  /** Redirect /about.html to /about */
+  cleanUrls?: boolean;
+}
+
+export interface StaticServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.xml': 'application/xml; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.webmanifest': 'application/manifest+json',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+};
+
+async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Where a request should be redirected to under Vercel's trailingSlash and
+ * cleanUrls rules, or undefined when it is served as-is. Paths whose last
+ * segment has an extension (robots.txt, sitemap.xml) are never slashed.
+ */
+export function redirectTarget(pathname: string, opts: StaticServerOptions): string | undefined {
+  let target = pathname;
+
+  if (opts.cleanUrls && target.endsWith('.html')) {
+    target = target.slice(0, -'.html'.length);
+    if (target === '/index' || target.endsWith('/index')) {
+      target = target.slice(0, -'index'.length);
+    }
+  }
+
+  const lastSegment = target.slice(target.lastIndexOf('/') + 1);
+  if (opts.trailingSlash === true && !target.endsWith('/') && !extname(lastSegment)) {
+    target += '/';
+  } else if (opts.trailingSlash === false && target !== '/' && target.endsWith('/')) {
+    target = target.replace(/\/+$/, '') || '/';
+  }
+
+  return target === pathname ? undefined : target;
+}
+
+/** Files that may answer a clean URL, in lookup order. */
+export function candidateFiles(pathname: string): string[] {
+  if (pathname.endsWith('/')) {
+    return pathname === '/' ? ['/index.html'] : [`${pathname}index.html`, `${pathname.slice(0, -1)}.html`];
+  }
+  return [pathname, `${pathname}.html`, `${pathname}/index.html`];
+}
+
+async function handle(root: string, opts: StaticServerOptions, req: IncomingMessage, res: ServerResponse): Promise<void> {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.writeHead(405, { allow: 'GET, HEAD' }).end();
+    return;
+  }
+
+  const { pathname, search } = new URL(req.url ?? '/', 'http://localhost');
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    res.writeHead(400).end();
+    return;
+  }
+
+  const location = redirectTarget(pathname, opts);
+  if (location) {
+    res.writeHead(308, { location: location + search }).end();
+    return;
+  }
+
+  for (const candidate of candidateFiles(decoded)) {
+    const file = resolve(join(root, candidate));
+    // Never serve anything outside the export directory
+    if (file !== root && !file.startsWith(root + sep)) continue;
+    if (await isFile(file)) {
+      await sendFile(res, req, 200, file);
+      return;
+    }
+  }
+
+  const notFound = join(root, '404.html');
+  if (await isFile(notFound)) {
+    await sendFile(res, req, 404, notFound);
+  } else {
+    res.writeHead(404, { 'content-type': CONTENT_TYPES['.txt'] }).end(req.method === 'HEAD' ? undefined : 'Not Found');
+  }
+}
+
+async function sendFile(res: ServerResponse, req: IncomingMessage, status: number, file: string): Promise<void> {
+  const body = await readFile(file);
+  res.writeHead(status, {
+    'content-type': CONTENT_TYPES[extname(file).toLowerCase()] ?? 'application/octet-stream',
+    'content-length': body.length,
+  });
+  res.end(req.method === 'HEAD' ? undefined : body);
+}
+
+/**
+ * Serves a static export (e.g. Next.js `out/`) on a random local port so the
+ * audit can run against it before anything is deployed.
+ */
+export async function startStaticServer(dir: string, opts: StaticServerOptions = {}): Promise<StaticServer> {
+  const root = resolve(dir);
+  let rootStat;
+  try {
+    rootStat = await stat(root);
+  } catch {
+    throw new Error(`Directory not found: ${dir}`);
+  }
+  if (!rootStat.isDirectory()) {
+    throw new Error(`Not a directory: ${dir}`);
+  }
+
+  const server = createServer((req, res) => {
+    handle(root, opts, req, res).catch(() => {
+      if (!res.headersSent) res.writeHead(500);
+      res.end();
+    });
+  });
+
+  await new Promise<void>((resolveListen, rejectListen) => {
+    server.once('error', rejectListen);
+    server.listen(0, '127.0.0.1', () => resolveListen());
+  });
+
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : 0;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () =>
+      new Promise<void>((resolveClose) => {
+        server.closeAllConnections();
+        server.close(() => resolveClose());
+      }),
+  };
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { checkTtfb } from './timing.js';
+
+const URL = 'https://example.com/';
+
+function timing(ttfb: number) {
+  return { ttfb, total: ttfb + 50, bytes: 2048 };
+}
+
+describe('checkTtfb', () => {
+  it('returns undefined without a timing', () => {
+    expect(checkTtfb(URL, undefined)).toBeUndefined();
+  });
+
+  it('returns undefined for a fast response', () => {
+    expect(checkTtfb(URL, timing(200))).toBeUndefined();
+    expect(checkTtfb(URL, timing(800))).toBeUndefined();
+  });
+
+  it('reports info above the info threshold', () => {
+    const f = checkTtfb(URL, timing(801));
+    expect(f).toMatchObject({ code: 'SLOW_TTFB', severity: 'info', category: 'performance', url: URL });
+    expect(f!.details).toEqual({ ttfb: 801, total: 851, bytes: 2048, threshold: 800 });
+  });
+
+  it('reports a warning above the warning threshold', () => {
+    const f = checkTtfb(URL, timing(2500));
+    expect(f!.severity).toBe('warning');
+    expect(f!.message).toContain('2500ms (over 1800ms)');
+  });
+
+  it('uses custom thresholds', () => {
+    expect(checkTtfb(URL, timing(900), { info: 1000, warning: 2000 })).toBeUndefined();
+    expect(checkTtfb(URL, timing(300), { info: 100, warning: 250 })!.severity).toBe('warning');
+  });
+});
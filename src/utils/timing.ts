@@ -0,0 +1,34 @@
+import type { AuditFinding, ResponseTiming, TtfbThresholds } from '../types.js';
+import { DEFAULT_TTFB_THRESHOLDS } from '../constants.js';
+
+/**
+ * Reports a page whose time to first byte is over a threshold. TTFB here
+ * is measured from the start of the request, so it includes DNS lookup,
+ * connection setup and TLS as well as server think time.
+ */
+export function checkTtfb(
+  url: string,
+  timing: ResponseTiming | undefined,
+  thresholds: TtfbThresholds = DEFAULT_TTFB_THRESHOLDS,
+): AuditFinding | undefined {
+  if (!timing) return undefined;
+
+  const severity = timing.ttfb > thresholds.warning ? 'warning'
+    : timing.ttfb > thresholds.info ? 'info'
+    : undefined;
+  if (!severity) return undefined;
+
+  const threshold = severity === 'warning' ? thresholds.warning : thresholds.info;
+  return {
+    code: 'SLOW_TTFB',
+    severity,
+    category: 'performance',
+    message: `Time to first byte was ${timing.ttfb}ms (over ${threshold}ms): ${url}`,
+    explanation:
+      'A slow server response delays everything else on the page, hurting Largest Contentful Paint. Slow responses also make search engines crawl fewer pages.',
+    suggestion:
+      'Cache the page at the edge (static generation, ISR or Cache-Control headers), and look for slow data fetching or cold starts in server rendering.',
+    details: { ttfb: timing.ttfb, total: timing.total, bytes: timing.bytes, threshold },
+    url,
+  };
+}
@@ -10,6 +10,7 @@ export default defineConfig({
       exclude: [
         'src/**/*.test.ts',
         'src/types.ts',
+        'src/index.ts',
         'src/audit/index.ts',
         'src/utils/index.ts',
         'src/cli.ts',